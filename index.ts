@@ -3,6 +3,10 @@ import cors from 'cors';
 import { env } from './src/config/env.js';
 import logger from './src/utils/logger.js';
 import process_router from './src/api/process/process.router.js';
+import admin_router from './src/api/admin/admin.router.js';
+import { verify_request_signature } from './src/middleware/auth.middleware.js';
+import { warm_up_tesseract_pool, shutdown_tesseract_pool } from './src/services/tesseract.service.js';
+import { ERROR_CODES, ServiceError } from './src/utils/errors.js';
 
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason: unknown, promise: Promise<unknown>) => {
@@ -33,24 +37,51 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+// Keep the raw body so request signatures can be verified
+const keep_raw_body = (req: express.Request, res: express.Response, buf: Buffer) => {
+  req.raw_body = buf;
+};
+app.use(express.json({ limit: '50mb', verify: keep_raw_body }));
+app.use(express.urlencoded({ extended: true, limit: '50mb', verify: keep_raw_body }));
+// Multipart uploads are buffered whole so they can be signed too; multer parses the buffer
+app.use(express.raw({ type: 'multipart/form-data', limit: '50mb', verify: keep_raw_body }));
 
 // Routes
-app.use('/process', process_router);
+app.use('/process', verify_request_signature, process_router);
+app.use('/admin', verify_request_signature, admin_router);
 
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'compass-ocr-service' });
 });
 
-// Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  logger.error('Express error:', err);
-  res.status(500).json({
-    error: 'INTERNAL_SERVER_ERROR',
-    message: err.message || 'An unexpected error occurred',
-    code: 500,
+// Error handling middleware: formats every API error, thrown by routes and middleware as ServiceError
+// Body-parser failures are the client's; any other error without a code is internal
+app.use((err: Error & { type?: string }, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  let error: ServiceError;
+  if (err instanceof ServiceError) {
+    error = err;
+  } else if (err.type === 'entity.too.large') {
+    error = new ServiceError('FILE_TOO_LARGE', 'Request body is too large');
+  } else if (err.type === 'entity.parse.failed') {
+    error = new ServiceError('VALIDATION_ERROR', 'Request body could not be parsed');
+  } else {
+    error = new ServiceError('INTERNAL_SERVER_ERROR', err.message || 'An unexpected error occurred');
+  }
+
+  if (error.code === 'INTERNAL_SERVER_ERROR') {
+    logger.error('Express error:', err);
+  } else {
+    logger.warn(`Request failed with ${error.code}: ${error.message}`);
+  }
+
+  const status = ERROR_CODES[error.code].http_status;
+  res.status(status).json({
+    error: error.code,
+    message: error.message,
+    code: status,
+    retryable: error.retryable,
+    ...error.details,
   });
 });
 
@@ -58,6 +89,10 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 const port = env.port;
 const server = app.listen(port, () => {
   logger.info(`OCR Microservice listening on port ${port}`);
+  // POST /process/extract runs OCR in this process
+  warm_up_tesseract_pool().catch((error: Error) => {
+    logger.error('Failed to warm up Tesseract worker pool:', error);
+  });
 }).on('error', (error: NodeJS.ErrnoException) => {
   if (error.code === 'EADDRINUSE') {
     logger.error(`Port ${port} is already in use`);
@@ -71,16 +106,18 @@ const server = app.listen(port, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
-  server.close(() => {
+  server.close(async () => {
     logger.info('Server closed');
+    await shutdown_tesseract_pool();
     process.exit(0);
   });
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
-  server.close(() => {
+  server.close(async () => {
     logger.info('Server closed');
+    await shutdown_tesseract_pool();
     process.exit(0);
   });
 });
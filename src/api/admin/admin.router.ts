@@ -0,0 +1,43 @@
+import { Router, type Request, type Response } from 'express';
+import { list_dead_letters, redeliver_dead_letter } from '../../services/webhook.service.js';
+import { ServiceError } from '../../utils/errors.js';
+
+const admin_router = Router();
+
+/**
+ * GET /admin/webhooks/dead-letters - List webhook payloads that could not be delivered
+ */
+admin_router.get('/webhooks/dead-letters', async (req: Request, res: Response): Promise<void> => {
+  const dead_letters = await list_dead_letters();
+  res.json({
+    count: dead_letters.length,
+    dead_letters,
+  });
+});
+
+/**
+ * POST /admin/webhooks/dead-letters/:id/redeliver - Retry delivery of a dead-lettered payload
+ */
+admin_router.post('/webhooks/dead-letters/:id/redeliver', async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const result = await redeliver_dead_letter(id);
+
+  if (!result) {
+    throw new ServiceError('NOT_FOUND', `No dead letter found with id ${id}`);
+  }
+
+  if (!result.delivered) {
+    throw new ServiceError('WEBHOOK_DELIVERY_FAILED', result.error || 'Webhook delivery failed', {
+      attempts: result.attempts,
+      dead_letter_id: result.dead_letter_id,
+    });
+  }
+
+  res.json({
+    status: 'delivered',
+    id,
+    attempts: result.attempts,
+  });
+});
+
+export default admin_router;
@@ -1,413 +1,321 @@
 import { Router, type Request, type Response } from 'express';
-import { process_passport_ocr } from '../../services/passport.service.js';
-import { process_flight_ocr } from '../../services/flight.service.js';
-import { process_hotel_ocr } from '../../services/hotel.service.js';
-import { map_ticket_to_passenger } from '../../services/mapping.service.js';
-import { publish_to_redis } from '../../config/redis.js';
+import multer from 'multer';
+import { create_order_job, finish_order_job, get_order_job, requeue_document_job } from '../../services/job.service.js';
+import { enqueue_order } from '../../services/queue.service.js';
+import {
+  assign_document,
+  global_limit,
+  is_passport_type,
+  is_travel_document_type,
+  type DocumentPayload,
+} from '../../services/processing.service.js';
+import type { TravellerInfo } from '../../services/mapping.service.js';
+import {
+  EXTRACT_DOCUMENT_TYPES,
+  download_extract_file,
+  extract_single_document,
+  type ExtractFile,
+} from '../../services/extract.service.js';
+import { with_timeout } from '../../utils/concurrency.js';
+import { ServiceError } from '../../utils/errors.js';
 import { env } from '../../config/env.js';
 import logger from '../../utils/logger.js';
 
 const process_router = Router();
 
-interface DocumentPayload {
+interface ProcessDocumentsRequest {
+  order_id: string;
+  documents: DocumentPayload[];
+  travel_date?: string; // YYYY-MM-DD, optional
+}
+
+interface ReprocessDocumentRequest {
+  order_id: string;
+  file_url: string; // Fresh pre-signed URL; the one sent with the order may have expired
+  document_type?: string; // Forced type, used even if the text looks like another type
+  paired_file_url?: string; // Other passport page, when reprocessing a passport page that has one
+  travel_date?: string;
+}
+
+interface AssignDocumentRequest {
+  order_id: string;
   traveller_id: string;
-  traveller_name: string;
-  document_id: string;
-  file_url: string; // Pre-signed URL from main backend
+  passenger_name?: string; // Name on the document the traveller is; without it the whole document is reassigned
+}
+
+interface ExtractRequest {
   document_type: string;
+  file_url?: string; // Instead of an uploaded file
+  back_file_url?: string; // Passport back page, with document_type "passport"
+  travel_date?: string;
 }
 
-interface ProcessDocumentsRequest {
-  order_id: string;
-  documents: DocumentPayload[];
+// The request body was already buffered for signature checking, so multer parses that buffer.
+// streamHandler needs multer 2.4.0 or later and is not in @types/multer yet
+const upload_options: multer.Options & { streamHandler: (req: Request, busboy: NodeJS.WritableStream) => void } = {
+  storage: multer.memoryStorage(),
+  limits: { fileSize: env.extract.max_file_bytes, files: 2 },
+  streamHandler: (req, busboy) => busboy.end(req.raw_body || Buffer.alloc(0)),
+};
+const upload = multer(upload_options).fields([
+  { name: 'file', maxCount: 1 },
+  { name: 'back_file', maxCount: 1 },
+]);
+
+function parse_upload(req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error: unknown) => {
+      if (!error) {
+        resolve();
+      } else if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        reject(new ServiceError('FILE_TOO_LARGE', `Files must be at most ${env.extract.max_file_bytes} bytes`));
+      } else {
+        reject(new ServiceError('VALIDATION_ERROR', error instanceof Error ? error.message : 'Invalid upload'));
+      }
+    });
+  });
+}
+
+// Types a reprocess request may force
+const FORCEABLE_TYPES = ['passport_front', 'passport_back', 'flight', 'hotel', 'visa', 'insurance', 'national_id'];
+
+function is_valid_travel_date(travel_date: unknown): boolean {
+  return travel_date === undefined
+    || (typeof travel_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(travel_date) && !isNaN(Date.parse(travel_date)));
+}
+
+// Each traveller in an order once, from its document jobs
+function order_travellers(documents: Array<{ traveller_id: string; traveller_name: string }>): TravellerInfo[] {
+  return [...new Map(documents.map(d => [d.traveller_id, { traveller_id: d.traveller_id, traveller_name: d.traveller_name }])).values()];
 }
 
 /**
- * POST /process/documents - Process documents for OCR
- * Receives pre-signed URLs from main backend, downloads files, processes OCR, and updates database
+ * POST /process/documents - Queue documents for OCR
+ * Receives pre-signed URLs from main backend and enqueues them; a worker process
+ * downloads files, processes OCR, and updates the main backend
  */
 process_router.post('/documents', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { order_id, documents } = req.body as ProcessDocumentsRequest;
+  const { order_id, documents, travel_date } = req.body as ProcessDocumentsRequest;
 
-    if (!order_id || !documents || !Array.isArray(documents)) {
-      res.status(400).json({
-        error: 'VALIDATION_ERROR',
-        message: 'order_id and documents array are required',
-        code: 400,
-      });
-      return;
-    }
+  if (!order_id || !documents || !Array.isArray(documents)) {
+    throw new ServiceError('VALIDATION_ERROR', 'order_id and documents array are required');
+  }
 
-    // Return immediately (async processing)
-    res.status(202).json({
-      status: 'accepted',
-      message: 'Documents are being processed',
-      order_id,
-    });
+  if (!is_valid_travel_date(travel_date)) {
+    throw new ServiceError('VALIDATION_ERROR', 'travel_date must be an ISO date (YYYY-MM-DD)');
+  }
 
-    // Process documents asynchronously
-    setImmediate(async () => {
-      try {
-        await process_documents_async(order_id, documents);
-      } catch (error) {
-        logger.error(`Error processing documents for order ${order_id}:`, error);
-      }
-    });
+  // Record order and documents as queued jobs
+  try {
+    await create_order_job(order_id, documents);
   } catch (error) {
-    logger.error('Error in process documents endpoint:', error);
-    res.status(500).json({
-      error: 'INTERNAL_SERVER_ERROR',
-      message: error instanceof Error ? error.message : 'Failed to process documents',
-      code: 500,
-    });
+    logger.error(`Failed to create job for order ${order_id}:`, error);
+    throw new ServiceError('QUEUE_UNAVAILABLE', 'Order could not be recorded for processing');
   }
+
+  try {
+    await enqueue_order(order_id, documents, travel_date);
+  } catch (error) {
+    logger.error(`Failed to enqueue documents for order ${order_id}:`, error);
+    // No worker will pick the order up, so its jobs must not stay queued
+    await finish_order_job(order_id, 'Documents could not be queued for processing', 'QUEUE_UNAVAILABLE');
+    throw new ServiceError('QUEUE_UNAVAILABLE', 'Documents could not be queued for processing');
+  }
+
+  res.status(202).json({
+    status: 'accepted',
+    message: 'Documents are queued for processing',
+    order_id,
+  });
 });
 
 /**
- * Process documents asynchronously
+ * POST /process/extract - Extract one document and return the result in the response
+ * Takes a multipart upload (`file`, and `back_file` for a passport) or `file_url`; nothing is
+ * published to Redis or sent to main backend
  */
-async function process_documents_async(
-  order_id: string,
-  documents: DocumentPayload[]
-): Promise<void> {
-  const channel = `${env.redis.ocr_progress_channel}:${order_id}`;
-  
-  try {
-    logger.info(`Processing ${documents.length} documents for order ${order_id}`);
-
-    // Group documents by type and traveller
-    const passport_docs = new Map<string, { front?: DocumentPayload; back?: DocumentPayload }>();
-    const flight_docs: DocumentPayload[] = [];
-    const hotel_docs: DocumentPayload[] = [];
-
-    for (const doc of documents) {
-      if (doc.document_type === 'passport_front' || doc.document_type === 'passport_back') {
-        if (!passport_docs.has(doc.traveller_id)) {
-          passport_docs.set(doc.traveller_id, {});
-        }
-        const passport_pair = passport_docs.get(doc.traveller_id)!;
-        if (doc.document_type === 'passport_front') {
-          passport_pair.front = doc;
-        } else {
-          passport_pair.back = doc;
-        }
-      } else if (doc.document_type === 'flight') {
-        flight_docs.push(doc);
-      } else if (doc.document_type === 'hotel') {
-        hotel_docs.push(doc);
-      }
-    }
+process_router.post('/extract', async (req: Request, res: Response): Promise<void> => {
+  await parse_upload(req, res);
 
-    // Process passports (need both front and back)
-    for (const [traveller_id, passport_pair] of passport_docs.entries()) {
-      if (passport_pair.front && passport_pair.back) {
-        try {
-          const traveller_name = passport_pair.front.traveller_name;
-          
-          // Publish processing status
-          await publish_progress(channel, {
-            order_id,
-            traveller_id,
-            traveller_name,
-            document_id: passport_pair.front.document_id,
-            document_type: 'passport',
-            status: 'processing',
-          });
-
-          // Process passport OCR
-          const passport_result = await process_passport_ocr(
-            passport_pair.front.file_url,
-            passport_pair.back.file_url
-          );
-
-          // Publish completion status
-          await publish_progress(channel, {
-            order_id,
-            traveller_id,
-            traveller_name,
-            document_id: passport_pair.front.document_id,
-            document_type: 'passport',
-            status: passport_result.status === 'success' ? 'mapped' : 'failed',
-            extracted_data: passport_result.data,
-            error: passport_result.error,
-          });
-
-          // Update main backend with passport OCR results
-          await update_main_backend_with_passport(
-            order_id,
-            traveller_id,
-            passport_pair.front.document_id,
-            passport_pair.back.document_id,
-            passport_result
-          );
-        } catch (error) {
-          logger.error(`Failed to process passport for traveller ${traveller_id}:`, error);
-          await publish_progress(channel, {
-            order_id,
-            traveller_id,
-            traveller_name: passport_pair.front?.traveller_name || '',
-            document_id: passport_pair.front?.document_id || '',
-            document_type: 'passport',
-            status: 'failed',
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-        }
-      }
-    }
+  const { document_type, file_url, back_file_url, travel_date } = (req.body || {}) as ExtractRequest;
+  const uploads = (req.files || {}) as Record<string, Express.Multer.File[]>;
+  const uploaded = uploads.file?.[0];
+  const uploaded_back = uploads.back_file?.[0];
 
-    // Process flight tickets
-    for (const flight_doc of flight_docs) {
-      try {
-        // Publish processing status
-        await publish_progress(channel, {
-          order_id,
-          traveller_id: flight_doc.traveller_id,
-          traveller_name: flight_doc.traveller_name,
-          document_id: flight_doc.document_id,
-          document_type: 'flight',
-          status: 'processing',
-        });
-
-        // Process flight OCR
-        const flight_result = await process_flight_ocr(flight_doc.file_url);
-
-        if (flight_result.status === 'success' && flight_result.data) {
-          // Map to passenger
-          const all_travellers = documents.map(d => ({
-            traveller_id: d.traveller_id,
-            traveller_name: d.traveller_name,
-          }));
-          const mapped_traveller_id = map_ticket_to_passenger(
-            flight_result.data.passenger_name,
-            all_travellers
-          ) || flight_doc.traveller_id;
-
-          // Publish completion status
-          await publish_progress(channel, {
-            order_id,
-            traveller_id: mapped_traveller_id,
-            traveller_name: all_travellers.find(t => t.traveller_id === mapped_traveller_id)?.traveller_name || flight_doc.traveller_name,
-            document_id: flight_doc.document_id,
-            document_type: 'flight',
-            status: 'mapped',
-            extracted_data: flight_result.data,
-          });
-
-          // Update main backend with flight OCR results
-          await update_main_backend_with_ticket(
-            order_id,
-            mapped_traveller_id,
-            flight_doc.document_id,
-            'flight',
-            flight_result
-          );
-        } else {
-          await publish_progress(channel, {
-            order_id,
-            traveller_id: flight_doc.traveller_id,
-            traveller_name: flight_doc.traveller_name,
-            document_id: flight_doc.document_id,
-            document_type: 'flight',
-            status: 'failed',
-            error: flight_result.error,
-          });
-        }
-      } catch (error) {
-        logger.error(`Failed to process flight ticket for document ${flight_doc.document_id}:`, error);
-        await publish_progress(channel, {
-          order_id,
-          traveller_id: flight_doc.traveller_id,
-          traveller_name: flight_doc.traveller_name,
-          document_id: flight_doc.document_id,
-          document_type: 'flight',
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+  if (!document_type || !EXTRACT_DOCUMENT_TYPES.includes(document_type)) {
+    throw new ServiceError('VALIDATION_ERROR', `document_type must be one of ${EXTRACT_DOCUMENT_TYPES.join(', ')}`);
+  }
 
-    // Process hotel tickets
-    for (const hotel_doc of hotel_docs) {
-      try {
-        // Publish processing status
-        await publish_progress(channel, {
-          order_id,
-          traveller_id: hotel_doc.traveller_id,
-          traveller_name: hotel_doc.traveller_name,
-          document_id: hotel_doc.document_id,
-          document_type: 'hotel',
-          status: 'processing',
-        });
-
-        // Process hotel OCR
-        const hotel_result = await process_hotel_ocr(hotel_doc.file_url);
-
-        if (hotel_result.status === 'success' && hotel_result.data) {
-          // Map to passenger
-          const all_travellers = documents.map(d => ({
-            traveller_id: d.traveller_id,
-            traveller_name: d.traveller_name,
-          }));
-          const mapped_traveller_id = map_ticket_to_passenger(
-            hotel_result.data.guest_name,
-            all_travellers
-          ) || hotel_doc.traveller_id;
-
-          // Publish completion status
-          await publish_progress(channel, {
-            order_id,
-            traveller_id: mapped_traveller_id,
-            traveller_name: all_travellers.find(t => t.traveller_id === mapped_traveller_id)?.traveller_name || hotel_doc.traveller_name,
-            document_id: hotel_doc.document_id,
-            document_type: 'hotel',
-            status: 'mapped',
-            extracted_data: hotel_result.data,
-          });
-
-          // Update main backend with hotel OCR results
-          await update_main_backend_with_ticket(
-            order_id,
-            mapped_traveller_id,
-            hotel_doc.document_id,
-            'hotel',
-            hotel_result
-          );
-        } else {
-          await publish_progress(channel, {
-            order_id,
-            traveller_id: hotel_doc.traveller_id,
-            traveller_name: hotel_doc.traveller_name,
-            document_id: hotel_doc.document_id,
-            document_type: 'hotel',
-            status: 'failed',
-            error: hotel_result.error,
-          });
-        }
-      } catch (error) {
-        logger.error(`Failed to process hotel ticket for document ${hotel_doc.document_id}:`, error);
-        await publish_progress(channel, {
-          order_id,
-          traveller_id: hotel_doc.traveller_id,
-          traveller_name: hotel_doc.traveller_name,
-          document_id: hotel_doc.document_id,
-          document_type: 'hotel',
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+  if (!uploaded && !file_url) {
+    throw new ServiceError('VALIDATION_ERROR', 'Upload a file or give a file_url');
+  }
 
-    logger.info(`Completed processing documents for order ${order_id}`);
-  } catch (error) {
-    logger.error(`Failed to process documents for order ${order_id}:`, error);
-    throw error;
+  if (!is_valid_travel_date(travel_date)) {
+    throw new ServiceError('VALIDATION_ERROR', 'travel_date must be an ISO date (YYYY-MM-DD)');
+  }
+
+  // OCR shares the process-wide limit; requests are turned away rather than queued without bound
+  if (global_limit.pending() >= env.extract.max_queued) {
+    throw new ServiceError('EXTRACT_BUSY', 'Too many extractions are waiting; try again shortly');
   }
-}
+
+  // The signal aborts on timeout: a request still queued never starts, a download in flight is cancelled,
+  // and OCR stops before its next page or recognition, freeing its slot and Tesseract worker
+  const extraction = async (signal: AbortSignal) => {
+    signal.throwIfAborted();
+    const file: ExtractFile = uploaded
+      ? { buffer: uploaded.buffer, content_type: uploaded.mimetype }
+      : await download_extract_file(file_url!, signal);
+    let back: ExtractFile | undefined;
+    if (uploaded_back) {
+      back = { buffer: uploaded_back.buffer, content_type: uploaded_back.mimetype };
+    } else if (back_file_url) {
+      back = await download_extract_file(back_file_url, signal);
+    }
+    signal.throwIfAborted();
+    return extract_single_document(document_type, file, back, travel_date ? new Date(travel_date) : new Date(), signal);
+  };
+
+  const outcome = await with_timeout(
+    signal => global_limit(() => extraction(signal)),
+    env.extract.timeout_ms
+  );
+  if (outcome.timed_out) {
+    throw new ServiceError('EXTRACT_TIMEOUT', `Extraction did not finish within ${env.extract.timeout_ms} ms`);
+  }
+
+  res.json(outcome.value);
+});
 
 /**
- * Update main backend with passport OCR results
+ * POST /process/documents/:document_id/reprocess - Queue one document of an order for OCR again
+ * The other documents keep their results; the document is mapped against every traveller in the order
  */
-async function update_main_backend_with_passport(
-  order_id: string,
-  traveller_id: string,
-  passport_front_doc_id: string,
-  passport_back_doc_id: string,
-  passport_result: any
-): Promise<void> {
-  try {
-    const response = await fetch(
-      `${env.main_backend.url}/order/${order_id}/ocr-results`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          traveller_id,
-          ticket_type: 'passport',
-          passport_front_doc_id,
-          passport_back_doc_id,
-          ocr_status: passport_result.status === 'success' ? 'COMPLETED' : 'FAILED',
-          ocr_extracted_data: passport_result,
-        }),
-      }
+process_router.post('/documents/:document_id/reprocess', async (req: Request<{ document_id: string }>, res: Response): Promise<void> => {
+  const { document_id } = req.params;
+  const { order_id, file_url, document_type, paired_file_url, travel_date } = req.body as ReprocessDocumentRequest;
+
+  if (!order_id || !file_url) {
+    throw new ServiceError('VALIDATION_ERROR', 'order_id and file_url are required');
+  }
+
+  if (document_type !== undefined && !FORCEABLE_TYPES.includes(document_type)) {
+    throw new ServiceError('VALIDATION_ERROR', `document_type must be one of ${FORCEABLE_TYPES.join(', ')}`);
+  }
+
+  if (!is_valid_travel_date(travel_date)) {
+    throw new ServiceError('VALIDATION_ERROR', 'travel_date must be an ISO date (YYYY-MM-DD)');
+  }
+
+  const order_job = await get_order_job(order_id);
+  const document_job = order_job?.documents.find(d => d.document_id === document_id);
+  if (!order_job || !document_job) {
+    throw new ServiceError('NOT_FOUND', `No document ${document_id} found in order ${order_id}`);
+  }
+
+  const documents: DocumentPayload[] = [{
+    traveller_id: document_job.traveller_id,
+    traveller_name: document_job.traveller_name,
+    document_id,
+    file_url,
+    document_type: document_type || document_job.document_type,
+    ...(document_type ? { force_document_type: true } : {}),
+  }];
+
+  // A passport page is read together with the traveller's other page; an "auto" page counts as
+  // the passport page the classifier found it to be
+  const page_type = document_type || document_job.processed_as || document_job.document_type;
+  if (is_passport_type(page_type)) {
+    const other_type = page_type === 'passport_front' ? 'passport_back' : 'passport_front';
+    const paired_job = order_job.documents.find(d =>
+      d.document_id !== document_id
+      && d.traveller_id === document_job.traveller_id
+      && (d.processed_as || d.document_type) === other_type
     );
 
-    if (!response.ok) {
-      const error_text = await response.text();
-      logger.warn(`Failed to update main backend with passport: ${response.status} - ${error_text}`);
-    } else {
-      logger.info(`Updated main backend with passport OCR for traveller ${traveller_id}`);
+    if (paired_job) {
+      if (!paired_file_url) {
+        throw new ServiceError('VALIDATION_ERROR', `paired_file_url is required: the traveller's ${other_type} (${paired_job.document_id}) is reprocessed with this page`);
+      }
+      documents.push({
+        traveller_id: paired_job.traveller_id,
+        traveller_name: paired_job.traveller_name,
+        document_id: paired_job.document_id,
+        file_url: paired_file_url,
+        document_type: other_type,
+      });
     }
+  }
+
+  for (const doc of documents) {
+    await requeue_document_job(order_id, doc.document_id);
+  }
+
+  try {
+    await enqueue_order(order_id, documents, travel_date, order_travellers(order_job.documents));
   } catch (error) {
-    logger.error('Error updating main backend with passport:', error);
+    logger.error(`Failed to enqueue document ${document_id} for reprocessing:`, error);
+    await finish_order_job(order_id, 'Document could not be queued for processing', 'QUEUE_UNAVAILABLE');
+    throw new ServiceError('QUEUE_UNAVAILABLE', 'Document could not be queued for processing');
   }
-}
+
+  res.status(202).json({
+    status: 'accepted',
+    message: 'Document is queued for processing',
+    order_id,
+    document_ids: documents.map(doc => doc.document_id),
+  });
+});
 
 /**
- * Update main backend with ticket (flight/hotel) OCR results
+ * POST /process/documents/:document_id/assign - Map an extracted ticket, visa, insurance certificate
+ * or national ID to a traveller, without running OCR again
  */
-async function update_main_backend_with_ticket(
-  order_id: string,
-  traveller_id: string,
-  document_id: string,
-  ticket_type: 'flight' | 'hotel',
-  ticket_result: any
-): Promise<void> {
-  try {
-    const response = await fetch(
-      `${env.main_backend.url}/order/${order_id}/ocr-results`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          traveller_id,
-          ticket_type,
-          document_id,
-          ocr_status: ticket_result.status === 'success' ? 'COMPLETED' : 'FAILED',
-          ocr_extracted_data: ticket_result,
-          mapped_to_traveller_id: traveller_id,
-        }),
-      }
-    );
+process_router.post('/documents/:document_id/assign', async (req: Request<{ document_id: string }>, res: Response): Promise<void> => {
+  const { document_id } = req.params;
+  const { order_id, traveller_id, passenger_name } = req.body as AssignDocumentRequest;
 
-    if (!response.ok) {
-      const error_text = await response.text();
-      logger.warn(`Failed to update main backend with ${ticket_type}: ${response.status} - ${error_text}`);
-    } else {
-      logger.info(`Updated main backend with ${ticket_type} OCR for traveller ${traveller_id}`);
-    }
-  } catch (error) {
-    logger.error(`Error updating main backend with ${ticket_type}:`, error);
+  if (!order_id || !traveller_id) {
+    throw new ServiceError('VALIDATION_ERROR', 'order_id and traveller_id are required');
+  }
+
+  const order_job = await get_order_job(order_id);
+  const document_job = order_job?.documents.find(d => d.document_id === document_id);
+  if (!order_job || !document_job) {
+    throw new ServiceError('NOT_FOUND', `No document ${document_id} found in order ${order_id}`);
   }
-}
+
+  const traveller = order_travellers(order_job.documents).find(t => t.traveller_id === traveller_id);
+  if (!traveller) {
+    throw new ServiceError('VALIDATION_ERROR', `Traveller ${traveller_id} is not in order ${order_id}`);
+  }
+
+  // Passports belong to the traveller they were uploaded for
+  const processed_as = document_job.processed_as || document_job.document_type;
+  if (processed_as !== 'flight' && processed_as !== 'hotel' && !is_travel_document_type(processed_as)) {
+    throw new ServiceError('NOT_ASSIGNABLE', `Document ${document_id} (${processed_as}) cannot be assigned; only extracted tickets, visas, insurance certificates and national IDs can`);
+  }
+
+  if (document_job.result?.status !== 'success') {
+    throw new ServiceError('NOT_ASSIGNABLE', `Document ${document_id} has no extracted result to assign; reprocess it first`);
+  }
+
+  const updated = await assign_document(document_job, traveller, passenger_name);
+  res.json(updated);
+});
 
 /**
- * Publish progress update to Redis
+ * GET /process/jobs/:order_id - Get job state for an order and its documents
  */
-async function publish_progress(
-  channel: string,
-  data: {
-    order_id: string;
-    traveller_id: string;
-    traveller_name: string;
-    document_id: string;
-    document_type: string;
-    status: string;
-    extracted_data?: any;
-    error?: string;
+process_router.get('/jobs/:order_id', async (req: Request<{ order_id: string }>, res: Response): Promise<void> => {
+  const { order_id } = req.params;
+  const order_job = await get_order_job(order_id);
+
+  if (!order_job) {
+    throw new ServiceError('NOT_FOUND', `No jobs found for order ${order_id}`);
   }
-): Promise<void> {
-  const message = JSON.stringify({
-    ...data,
-    timestamp: new Date().toISOString(),
-  });
 
-  await publish_to_redis(channel, message);
-  logger.debug(`Published progress to ${channel}: ${data.document_type} ${data.status} for ${data.traveller_name}`);
-}
+  res.json(order_job);
+});
 
 export default process_router;
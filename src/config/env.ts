@@ -17,27 +17,162 @@ console.info = (...args: any[]) => {
   originalInfo(...args);
 };
 
+export type PassportOCRMode = 'gridlines' | 'local_mrz' | 'local_first';
+
+const passport_ocr_modes: PassportOCRMode[] = ['gridlines', 'local_mrz', 'local_first'];
+
+function parse_passport_ocr_mode(value: string | undefined): PassportOCRMode {
+  return passport_ocr_modes.includes(value as PassportOCRMode) ? (value as PassportOCRMode) : 'gridlines';
+}
+
+export type NumericDateOrder = 'DMY' | 'MDY';
+
+// Unset, empty or non-numeric values, and values below `min`, use the default; 0 is kept where min allows it
+function parse_number(value: string | undefined, fallback: number, { min = -Infinity }: { min?: number } = {}): number {
+  const parsed = value === undefined || value.trim() === '' ? NaN : Number(value);
+  return Number.isNaN(parsed) || parsed < min ? fallback : parsed;
+}
+
+function parse_list(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
 export const env = {
-  port: Number(process.env.PORT) || 8001,
+  port: parse_number(process.env.PORT, 8001, { min: 1 }),
   node_env: (process.env.NODE_ENV || 'development') as string,
   
+  // Shared-secret HMAC signing for incoming requests and outgoing webhooks
+  auth: {
+    shared_secret: process.env.OCR_SHARED_SECRET || '',
+    signature_header: process.env.OCR_SIGNATURE_HEADER || 'X-Compass-Signature',
+    timestamp_header: process.env.OCR_TIMESTAMP_HEADER || 'X-Compass-Timestamp',
+    tolerance_seconds: parse_number(process.env.OCR_SIGNATURE_TOLERANCE_SECONDS, 300, { min: 1 }),
+    nonce_key_prefix: process.env.OCR_SIGNATURE_NONCE_PREFIX || 'ocr_auth_nonce',
+  },
+
   // Gridlines API
   gridlines: {
     api_key: process.env.GRIDLINES_API_KEY || '',
     auth_type: process.env.GRIDLINES_AUTH_TYPE || '',
     api_url: 'https://api.gridlines.io/passport-api/ocr',
   },
+
+  // Passport OCR
+  passport: {
+    // gridlines | local_mrz | local_first (local MRZ, Gridlines if check digits fail)
+    ocr_mode: parse_passport_ocr_mode(process.env.PASSPORT_OCR_MODE),
+  },
   
+  // Document processing concurrency
+  processing: {
+    order_concurrency: parse_number(process.env.PROCESSING_ORDER_CONCURRENCY, 3, { min: 1 }), // Documents at once within one order
+    global_concurrency: parse_number(process.env.PROCESSING_GLOBAL_CONCURRENCY, 6, { min: 1 }), // Documents at once across all orders
+  },
+
+  // Tesseract worker pool
+  tesseract: {
+    language: process.env.TESSERACT_LANGUAGE || 'eng',
+    pool_size: parse_number(process.env.TESSERACT_POOL_SIZE, 2, { min: 1 }),
+    max_jobs_per_worker: parse_number(process.env.TESSERACT_MAX_JOBS_PER_WORKER, 100, { min: 1 }), // Recycle worker after N jobs
+  },
+
+  // Image pre-processing before OCR / upload
+  preprocess: {
+    enabled: process.env.PREPROCESS_ENABLED !== 'false',
+    auto_rotate: process.env.PREPROCESS_AUTO_ROTATE !== 'false', // EXIF orientation
+    deskew: process.env.PREPROCESS_DESKEW !== 'false',
+    deskew_max_angle: parse_number(process.env.PREPROCESS_DESKEW_MAX_ANGLE, 10, { min: 0 }), // Degrees
+    grayscale: process.env.PREPROCESS_GRAYSCALE !== 'false',
+    threshold: process.env.PREPROCESS_THRESHOLD !== 'false', // Adaptive thresholding
+    threshold_window: parse_number(process.env.PREPROCESS_THRESHOLD_WINDOW, 31, { min: 1 }), // Neighbourhood size in pixels
+    threshold_offset: parse_number(process.env.PREPROCESS_THRESHOLD_OFFSET, 10),
+    upscale: process.env.PREPROCESS_UPSCALE !== 'false',
+    max_dimension: parse_number(process.env.PREPROCESS_MAX_DIMENSION, 2500, { min: 1 }), // Longest side; larger images are downscaled
+    min_dimension: parse_number(process.env.PREPROCESS_MIN_DIMENSION, 1000, { min: 1 }), // Longest side; smaller images are upscaled
+    upload_jpeg_quality: parse_number(process.env.PREPROCESS_UPLOAD_JPEG_QUALITY, 85, { min: 1 }),
+  },
+
+  // Per-field extraction confidence
+  confidence: {
+    review_threshold: parse_number(process.env.CONFIDENCE_REVIEW_THRESHOLD, 0.7, { min: 0 }), // 0-1; lower scores set needs_review
+  },
+
+  // Mapping names on tickets to travellers
+  mapping: {
+    name_match_threshold: parse_number(process.env.NAME_MATCH_THRESHOLD, 0.6, { min: 0 }), // 0-1; lower scores do not map
+    ambiguity_margin: parse_number(process.env.NAME_MATCH_AMBIGUITY_MARGIN, 0.05, { min: 0 }), // Runner-up this close to the best is a tie
+  },
+
+  // Downloading documents from pre-signed URLs
+  download: {
+    connect_timeout_ms: parse_number(process.env.DOWNLOAD_CONNECT_TIMEOUT_MS, 10000, { min: 1 }),
+    read_timeout_ms: parse_number(process.env.DOWNLOAD_READ_TIMEOUT_MS, 30000, { min: 1 }), // Longest wait for the next bytes
+    max_bytes: parse_number(process.env.DOWNLOAD_MAX_BYTES, 25 * 1024 * 1024, { min: 1 }),
+    allowed_schemes: parse_list(process.env.DOWNLOAD_ALLOWED_SCHEMES || (process.env.NODE_ENV === 'production' ? 'https' : 'http,https')),
+    allowed_hosts: parse_list(process.env.DOWNLOAD_ALLOWED_HOSTS), // Empty allows any public host; "*.amazonaws.com" matches subdomains
+    allow_private_addresses: process.env.DOWNLOAD_ALLOW_PRIVATE_ADDRESSES === 'true', // Local S3 stand-ins in development
+  },
+
+  // Synchronous single-document extraction (POST /process/extract)
+  extract: {
+    timeout_ms: parse_number(process.env.EXTRACT_TIMEOUT_MS, 60000, { min: 1 }),
+    max_file_bytes: parse_number(process.env.EXTRACT_MAX_FILE_BYTES, 20 * 1024 * 1024, { min: 1 }), // Per uploaded file
+    max_queued: parse_number(process.env.EXTRACT_MAX_QUEUED, 20, { min: 0 }), // Requests waiting for a PROCESSING_GLOBAL_CONCURRENCY slot before new ones get 503
+  },
+
+  // Cross-document validation per traveller
+  validation: {
+    passport_min_validity_months: parse_number(process.env.VALIDATION_PASSPORT_MIN_VALIDITY_MONTHS, 6, { min: 0 }), // After departure
+    check_in_tolerance_days: parse_number(process.env.VALIDATION_CHECK_IN_TOLERANCE_DAYS, 1, { min: 0 }), // Hotel check-in after flight arrival
+  },
+
+  // Date normalisation
+  dates: {
+    // How to read ambiguous numeric dates such as 04/05/2025: DMY (4 May) or MDY (5 April)
+    numeric_order: (process.env.DATE_NUMERIC_ORDER === 'MDY' ? 'MDY' : 'DMY') as NumericDateOrder,
+  },
+
+  // PDF tickets
+  pdf: {
+    max_pages: parse_number(process.env.PDF_MAX_PAGES, 10, { min: 1 }),
+    min_text_chars: parse_number(process.env.PDF_MIN_TEXT_CHARS, 20, { min: 0 }), // Below this a page is treated as scanned
+    render_scale: parse_number(process.env.PDF_RENDER_SCALE, 2, { min: 0.1 }), // 1 = 72 DPI
+  },
+
   // Redis configuration
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
     ocr_progress_channel: process.env.OCR_PROGRESS_CHANNEL || 'ocr_progress',
   },
+
+  // Job store (persisted in Redis)
+  jobs: {
+    key_prefix: process.env.JOB_KEY_PREFIX || 'ocr_jobs',
+    ttl_seconds: parse_number(process.env.JOB_TTL_SECONDS, 30 * 24 * 60 * 60, { min: 1 }), // 30 days
+  },
   
+  // Work queue (Redis list consumed by worker processes)
+  queue: {
+    name: process.env.QUEUE_NAME || 'ocr_queue',
+    lease_ms: parse_number(process.env.QUEUE_LEASE_MS, 60000, { min: 1 }), // Job returns to queue if worker stops renewing
+    poll_interval_ms: parse_number(process.env.QUEUE_POLL_INTERVAL_MS, 1000, { min: 1 }),
+    reaper_interval_ms: parse_number(process.env.QUEUE_REAPER_INTERVAL_MS, 15000, { min: 1 }),
+    max_deliveries: parse_number(process.env.QUEUE_MAX_DELIVERIES, 5, { min: 1 }),
+  },
+
   // Main Backend
   main_backend: {
     url: process.env.MAIN_BACKEND_URL || 'http://localhost:3000',
   },
+
+  // Webhook delivery to main backend
+  webhook: {
+    max_attempts: parse_number(process.env.WEBHOOK_MAX_ATTEMPTS, 5, { min: 1 }),
+    base_delay_ms: parse_number(process.env.WEBHOOK_BASE_DELAY_MS, 1000, { min: 0 }), // Doubles on each retry
+    max_delay_ms: parse_number(process.env.WEBHOOK_MAX_DELAY_MS, 30000, { min: 0 }),
+    timeout_ms: parse_number(process.env.WEBHOOK_TIMEOUT_MS, 10000, { min: 1 }),
+    dead_letter_key: process.env.WEBHOOK_DEAD_LETTER_KEY || 'ocr_webhook_dead_letters',
+  },
   
   // Logger
   logger: {
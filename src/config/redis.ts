@@ -6,6 +6,7 @@ const _RedisConstructor = Redis as unknown as new (...args: any[]) => any;
 type RedisClient = InstanceType<typeof _RedisConstructor>;
 
 let redis_publisher: RedisClient | null = null;
+let redis_client: RedisClient | null = null;
 
 /**
  * Get or create Redis publisher client
@@ -57,6 +58,37 @@ export function get_redis_publisher(): RedisClient {
   return redis_publisher;
 }
 
+/**
+ * Get or create Redis client for regular commands (job store)
+ * Unlike the publisher, commands issued while connecting are queued,
+ * so callers get a real result or error instead of a silent drop
+ */
+export function get_redis_client(): RedisClient {
+  if (!redis_client) {
+    redis_client = new (Redis as any)(env.redis.url, {
+      retryStrategy: (times: number) => {
+        const delay = Math.min(times * 50, 2000);
+        logger.warn(`Redis client retry attempt ${times}, waiting ${delay}ms`);
+        return delay;
+      },
+      maxRetriesPerRequest: 3,
+    });
+
+    redis_client.on('connect', () => {
+      logger.info('✓ Connected to Redis client');
+    });
+
+    redis_client.on('error', (error: Error) => {
+      logger.error('Redis client error:', error);
+    });
+
+    redis_client.on('close', () => {
+      logger.warn('Redis client connection closed');
+    });
+  }
+  return redis_client;
+}
+
 /**
  * Publish message to Redis channel
  * Silently fails if Redis is unavailable (logs error but doesn't throw)
@@ -75,6 +107,7 @@ export async function publish_to_redis(channel: string, message: string): Promis
 
 export default {
   get_redis_publisher,
+  get_redis_client,
   publish_to_redis,
 };
 
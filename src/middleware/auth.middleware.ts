@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from 'express';
+import { get_redis_client } from '../config/redis.js';
+import { env } from '../config/env.js';
+import { compute_signature, signatures_match } from '../utils/signature.js';
+import logger from '../utils/logger.js';
+import { ServiceError } from '../utils/errors.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      raw_body?: Buffer; // Body exactly as received, kept by the body parsers for signature checks
+    }
+  }
+}
+
+/**
+ * Verify HMAC signature and timestamp on incoming requests; failures are thrown as ServiceError
+ * Each signature is accepted once within the tolerance window (replay protection).
+ * Without a shared secret, requests are allowed outside production only.
+ */
+export async function verify_request_signature(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!env.auth.shared_secret) {
+    if (env.node_env === 'production') {
+      logger.error('OCR_SHARED_SECRET is not configured, rejecting request');
+      throw new ServiceError('UNAUTHORIZED', 'Request signing is not configured');
+    }
+    next();
+    return;
+  }
+
+  const signature = req.get(env.auth.signature_header);
+  const timestamp = req.get(env.auth.timestamp_header);
+
+  if (!signature || !timestamp) {
+    throw new ServiceError('UNAUTHORIZED', 'Missing signature or timestamp header');
+  }
+
+  const timestamp_seconds = Number(timestamp);
+  const now_seconds = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(timestamp_seconds) || Math.abs(now_seconds - timestamp_seconds) > env.auth.tolerance_seconds) {
+    throw new ServiceError('UNAUTHORIZED', 'Request timestamp is outside the allowed window');
+  }
+
+  const raw_body = req.raw_body || Buffer.alloc(0);
+  const expected = compute_signature(timestamp, req.method, req.originalUrl, raw_body);
+  if (!signatures_match(expected, signature)) {
+    throw new ServiceError('UNAUTHORIZED', 'Invalid request signature');
+  }
+
+  let stored: string | null;
+  try {
+    // Remember the signature for the whole window in which its timestamp is valid
+    stored = await get_redis_client().set(
+      `${env.auth.nonce_key_prefix}:${signature}`,
+      '1',
+      'EX',
+      env.auth.tolerance_seconds * 2,
+      'NX'
+    );
+  } catch (error) {
+    logger.error('Failed to record request signature for replay protection:', error);
+    throw new ServiceError('SERVICE_UNAVAILABLE', 'Unable to verify request');
+  }
+  if (stored !== 'OK') {
+    throw new ServiceError('UNAUTHORIZED', 'Request has already been processed (replay)');
+  }
+
+  next();
+}
+
+export default verify_request_signature;
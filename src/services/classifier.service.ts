@@ -0,0 +1,140 @@
+import logger from '../utils/logger.js';
+import { extract_document_text, type DocumentTextResult } from './document-text.service.js';
+import { download_file } from './download.service.js';
+import { FLIGHT_KEYWORDS } from './flight.service.js';
+import { HOTEL_KEYWORDS } from './hotel.service.js';
+import { VISA_KEYWORDS } from './visa.service.js';
+import { INSURANCE_KEYWORDS } from './insurance.service.js';
+import { national_id_score } from './national-id.service.js';
+import { find_td3_lines } from './mrz.service.js';
+
+export type DocumentClass = 'passport' | 'flight' | 'hotel' | 'visa' | 'insurance' | 'national_id' | 'unknown';
+
+// Document types the processing pipeline routes on
+export type ResolvedDocumentType = Exclude<DocumentClass, 'passport'> | 'passport_front' | 'passport_back';
+
+// Declared types that go through their own keyword check before being rerouted
+const CHECKED_TYPES = ['flight', 'hotel', 'visa', 'insurance', 'national_id'] as const;
+
+export interface ClassificationResult {
+  document_class: DocumentClass;
+  document_type: ResolvedDocumentType; // passport_front when a passport page carries the MRZ, passport_back otherwise
+  scores: Record<Exclude<DocumentClass, 'unknown'>, number>; // Keywords found per class; a detected MRZ or ID number adds to it
+  has_mrz: boolean;
+}
+
+// Words on passport pages; the data page also carries the MRZ, the back page the holder's family and address
+const PASSPORT_KEYWORDS = [
+  'passport',
+  'nationality',
+  'date of birth',
+  'place of birth',
+  'date of issue',
+  'date of expiry',
+  'surname',
+  'given name',
+  'republic',
+  'name of father',
+  'name of mother',
+  'name of spouse',
+  'file no',
+];
+
+// Same bar the document validators use
+const MIN_KEYWORDS = 3;
+
+// A valid-looking MRZ settles the class on its own
+const MRZ_SCORE = 5;
+
+// Every extractor reads the text classified here: letters, digits and ticket punctuation, plus '<' so an MRZ on a misfiled passport is still read
+const CLASSIFY_CHAR_WHITELIST = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 :/-.,<\n';
+
+function count_keywords(lower_text: string, keywords: string[]): number {
+  return keywords.filter(keyword => lower_text.includes(keyword)).length;
+}
+
+/**
+ * Score text against each document class and pick the best
+ * A class needs MIN_KEYWORDS and a strictly higher score than the runner-up, otherwise the text is unknown
+ */
+export function classify_text(text: string): ClassificationResult {
+  const lower_text = text.toLowerCase();
+  const has_mrz = find_td3_lines(text) !== null;
+
+  const scores = {
+    passport: count_keywords(lower_text, PASSPORT_KEYWORDS) + (has_mrz ? MRZ_SCORE : 0),
+    flight: count_keywords(lower_text, FLIGHT_KEYWORDS),
+    hotel: count_keywords(lower_text, HOTEL_KEYWORDS),
+    visa: count_keywords(lower_text, VISA_KEYWORDS),
+    insurance: count_keywords(lower_text, INSURANCE_KEYWORDS),
+    national_id: national_id_score(text),
+  };
+
+  const ranked = (Object.entries(scores) as Array<[Exclude<DocumentClass, 'unknown'>, number]>)
+    .sort((a, b) => b[1] - a[1]);
+  const [best, runner_up] = ranked;
+
+  const document_class: DocumentClass = best[1] >= MIN_KEYWORDS && best[1] > runner_up[1] ? best[0] : 'unknown';
+
+  const document_type: ResolvedDocumentType = document_class === 'passport'
+    ? (has_mrz ? 'passport_front' : 'passport_back')
+    : document_class;
+
+  return { document_class, document_type, scores, has_mrz };
+}
+
+/**
+ * Decide which extractor a document goes to
+ * "auto" (or any type the pipeline does not know) takes the classification; a declared ticket, visa,
+ * insurance or ID is only rerouted when its text fails that type's keyword check and clearly belongs to another class
+ */
+export function resolve_document_type(declared: string, classification: ClassificationResult): ResolvedDocumentType {
+  const checked = CHECKED_TYPES.find(type => type === declared);
+  if (checked) {
+    if (classification.scores[checked] >= MIN_KEYWORDS || classification.document_class === 'unknown') {
+      return checked;
+    }
+  }
+
+  return classification.document_type;
+}
+
+/**
+ * Read a file's text and classify it
+ * The text is returned so the chosen extractor does not have to read the document again
+ */
+export async function classify_file(
+  file_buffer: Buffer,
+  content_type: string | null,
+  signal?: AbortSignal
+): Promise<{ classification: ClassificationResult; document: DocumentTextResult }> {
+  const document = await extract_document_text(file_buffer, content_type, {
+    tessedit_char_whitelist: CLASSIFY_CHAR_WHITELIST,
+  }, signal);
+  const classification = classify_text(document.text);
+
+  const scores = Object.entries(classification.scores).map(([type, score]) => `${type} ${score}`).join(', ');
+  logger.info(`Classified document as ${classification.document_type} (${scores})`);
+
+  return { classification, document };
+}
+
+/**
+ * Download a document, read its text and classify it
+ */
+export async function classify_document(
+  file_url: string
+): Promise<{ classification: ClassificationResult; document: DocumentTextResult }> {
+  logger.info(`Classifying document: ${file_url.substring(0, 80)}...`);
+
+  const file = await download_file(file_url);
+
+  return classify_file(file.buffer, file.content_type);
+}
+
+export default {
+  classify_text,
+  resolve_document_type,
+  classify_file,
+  classify_document,
+};
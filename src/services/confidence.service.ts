@@ -0,0 +1,207 @@
+import { env } from '../config/env.js';
+
+// Fractions (0-1) of the page or image width and height, origin top-left
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface FieldLocation {
+  page: number; // 1-based page; for passports 1 = front image, 2 = back image
+  bbox: BoundingBox;
+}
+
+export interface TextWord {
+  text: string;
+  confidence: number; // 0-1; 1 for text read from a PDF text layer
+  page?: number;
+  bbox?: BoundingBox;
+}
+
+// How much a field can be trusted based on the kind of pattern that produced it
+// A field's confidence is its tier weight times its OCR confidence, so a tier weighted below
+// CONFIDENCE_REVIEW_THRESHOLD is always reviewed, however clean the text
+export const PATTERN_TIERS = {
+  checksum: 1, // Verified by a check digit (MRZ)
+  labelled: 1, // Value follows its label, e.g. "PNR: SISCPF"
+  structured: 0.9, // Value has a distinctive shape, e.g. "PATEL/MAHENDRA MR", "BOM - ... Airport"
+  positional: 0.75, // Inferred from position, e.g. the first date on the ticket is the departure
+  fallback: 0.5, // Loose catch-all pattern, e.g. any 6-character code as the PNR
+} as const;
+
+export type PatternTier = keyof typeof PATTERN_TIERS;
+
+// Confidence for a token that does not appear among the recognised words (reassembled or corrected by extraction)
+const UNMATCHED_TOKEN_CONFIDENCE = 0.5;
+
+export interface ConfidenceReport {
+  confidence: Record<string, number>; // Field path -> 0-1
+  locations?: Record<string, FieldLocation>; // Field path -> where its text was read
+  needs_review: boolean;
+  low_confidence_fields?: string[];
+}
+
+function normalise_token(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Convert Tesseract words (confidence 0-100, pixel bbox) into scored text words
+ * `to_bbox` maps a pixel box to a normalised box on the source page or image
+ */
+export function words_from_ocr(
+  words: Array<{ text: string; confidence: number; bbox: { x0: number; y0: number; x1: number; y1: number } }>,
+  page: number,
+  to_bbox?: (bbox: BoundingBox) => BoundingBox
+): TextWord[] {
+  return words.map(word => ({
+    text: word.text,
+    confidence: word.confidence / 100,
+    page,
+    ...(to_bbox ? { bbox: to_bbox(word.bbox) } : {}),
+  }));
+}
+
+/**
+ * Candidate sources of each token of a value, each candidate being the word(s) it was read from
+ * A token matches words exactly, else words containing it, else the words it was assembled from
+ * ("6E1402" from "6E" and "1402"); tokens with no match get no candidates
+ */
+function token_candidates(value: string, words: TextWord[]): TextWord[][][] {
+  const tokens = value.split(/[\s,\/]+/).map(normalise_token).filter(Boolean);
+  const normalised_words = words.map(word => ({ token: normalise_token(word.text), word }));
+
+  return tokens.map(token => {
+    const exact = normalised_words.filter(candidate => candidate.token === token);
+    const containing = exact.length > 0 ? exact : normalised_words.filter(candidate => candidate.token.includes(token));
+    if (containing.length > 0) {
+      return containing.map(candidate => [candidate.word]);
+    }
+
+    const parts = normalised_words
+      .filter(candidate => candidate.token.length >= 2 && token.includes(candidate.token))
+      .map(candidate => candidate.word);
+    return parts.length > 0 ? [parts] : [];
+  });
+}
+
+function group_confidence(group: TextWord[]): number {
+  return group.reduce((sum, word) => sum + word.confidence, 0) / group.length;
+}
+
+/**
+ * OCR confidence of a value: the weakest of its tokens, each scored by its best candidate source
+ */
+export function ocr_confidence(value: string, words: TextWord[]): number {
+  if (words.length === 0) return 1;
+
+  const candidates = token_candidates(value, words);
+  if (candidates.length === 0) return UNMATCHED_TOKEN_CONFIDENCE;
+
+  let weakest = 1;
+  for (const groups of candidates) {
+    const token_confidence = groups.length > 0
+      ? Math.max(...groups.map(group_confidence))
+      : UNMATCHED_TOKEN_CONFIDENCE;
+    weakest = Math.min(weakest, token_confidence);
+  }
+
+  return weakest;
+}
+
+function box_centre(group: TextWord[]): { page: number; x: number; y: number } {
+  const boxes = group.map(word => word.bbox!);
+  return {
+    page: group[0].page!,
+    x: (Math.min(...boxes.map(box => box.x0)) + Math.max(...boxes.map(box => box.x1))) / 2,
+    y: (Math.min(...boxes.map(box => box.y0)) + Math.max(...boxes.map(box => box.y1))) / 2,
+  };
+}
+
+/**
+ * Where a value was read
+ * The token with the fewest candidate sources anchors the search; every other token takes the
+ * candidate nearest the anchor, so common tokens ("21", "Apr") resolve to the occurrence beside it
+ */
+export function locate_value(value: string, words: TextWord[]): FieldLocation | undefined {
+  const located = words.filter(word => word.bbox && word.page);
+  const candidates = token_candidates(value, located).filter(groups => groups.length > 0);
+  if (candidates.length === 0) return undefined;
+
+  const anchor_groups = candidates.reduce((a, b) => (b.length < a.length ? b : a));
+  const anchor = box_centre(anchor_groups.reduce((a, b) => (group_confidence(b) > group_confidence(a) ? b : a)));
+
+  const distance = (group: TextWord[]) => {
+    const centre = box_centre(group);
+    return centre.page === anchor.page ? Math.hypot(centre.x - anchor.x, centre.y - anchor.y) : Infinity;
+  };
+
+  const chosen = candidates
+    .map(groups => groups.reduce((a, b) => (distance(b) < distance(a) ? b : a)))
+    .filter(group => distance(group) !== Infinity)
+    .flat();
+  if (chosen.length === 0) return undefined;
+
+  const boxes = chosen.map(word => word.bbox!);
+  const round = (n: number) => Math.round(n * 10000) / 10000;
+  return {
+    page: anchor.page,
+    bbox: {
+      x0: round(Math.min(...boxes.map(box => box.x0))),
+      y0: round(Math.min(...boxes.map(box => box.y0))),
+      x1: round(Math.max(...boxes.map(box => box.x1))),
+      y1: round(Math.max(...boxes.map(box => box.y1))),
+    },
+  };
+}
+
+/**
+ * Confidence of an extracted field: pattern tier weight times OCR confidence of the matched text
+ */
+export function field_confidence(value: unknown, tier: PatternTier, words: TextWord[]): number {
+  const text = value === undefined || value === null ? '' : String(value);
+  return Math.round(PATTERN_TIERS[tier] * ocr_confidence(text, words) * 100) / 100;
+}
+
+/**
+ * Score and locate every extracted field, and flag the result for review if any falls below CONFIDENCE_REVIEW_THRESHOLD
+ * `fields` maps a field path (e.g. "pnr", "segments[1].origin") to its value and pattern tier
+ */
+export function build_confidence_report(
+  fields: Record<string, { value: unknown; tier: PatternTier }>,
+  words: TextWord[]
+): ConfidenceReport {
+  const confidence: Record<string, number> = {};
+  const locations: Record<string, FieldLocation> = {};
+
+  for (const [path, { value, tier }] of Object.entries(fields)) {
+    if (value === undefined || value === null || value === '') continue;
+    confidence[path] = field_confidence(value, tier, words);
+
+    const location = locate_value(String(value), words);
+    if (location) {
+      locations[path] = location;
+    }
+  }
+
+  const low_confidence_fields = Object.entries(confidence)
+    .filter(([, score]) => score < env.confidence.review_threshold)
+    .map(([path]) => path);
+
+  return {
+    confidence,
+    ...(Object.keys(locations).length > 0 ? { locations } : {}),
+    needs_review: low_confidence_fields.length > 0,
+    ...(low_confidence_fields.length > 0 ? { low_confidence_fields } : {}),
+  };
+}
+
+export default {
+  words_from_ocr,
+  ocr_confidence,
+  locate_value,
+  field_confidence,
+  build_confidence_report,
+};
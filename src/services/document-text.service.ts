@@ -0,0 +1,137 @@
+import type { WorkerParams } from 'tesseract.js';
+import logger from '../utils/logger.js';
+import { detect_file_type, type DetectedFileType } from '../utils/file-type.js';
+import { recognize_image } from './tesseract.service.js';
+import { read_pdf_pages } from './pdf.service.js';
+import { preprocess_image, to_source_bbox } from './preprocess.service.js';
+import { words_from_ocr, type TextWord } from './confidence.service.js';
+import { ServiceError, result_error, type ErrorCode, type ResultError } from '../utils/errors.js';
+
+// ocr: image file; pdf_text: every page had a text layer; pdf_ocr: every page rasterised; pdf_mixed: both
+export type TextSource = 'ocr' | 'pdf_text' | 'pdf_ocr' | 'pdf_mixed';
+
+// OCR that reads fewer characters than this, or words below this mean confidence, is too poor to tell what the document is
+const MIN_LEGIBLE_CHARS = 40;
+const MIN_MEAN_WORD_CONFIDENCE = 0.5;
+
+export interface DocumentTextResult {
+  text: string;
+  words: TextWord[]; // Recognised words with confidence and position, for scoring and locating extracted fields
+  file_type: DetectedFileType;
+  text_source: TextSource;
+  page_count: number;
+  preprocessing: string[]; // Pre-processing steps applied to image input
+}
+
+/**
+ * Get the text of a downloaded document
+ * Images are pre-processed and OCR'd; PDFs use the embedded text layer per page and OCR rasterised pages without one
+ * Aborting `signal` stops the work before pre-processing and before each page's recognition
+ */
+export async function extract_document_text(
+  buffer: Buffer,
+  content_type: string | null,
+  parameters: Partial<WorkerParams> = {},
+  signal?: AbortSignal
+): Promise<DocumentTextResult> {
+  const file_type = detect_file_type(buffer, content_type);
+
+  if (file_type === 'unknown') {
+    throw new ServiceError('UNSUPPORTED_FORMAT', `Unsupported file format${content_type ? `: ${content_type}` : ''}`);
+  }
+
+  if (file_type !== 'pdf') {
+    signal?.throwIfAborted();
+    const preprocessed = await preprocess_image(buffer, 'ocr');
+    const { text, words } = await recognize_image(preprocessed.buffer, parameters, signal);
+    const { geometry } = preprocessed;
+    return {
+      text,
+      words: words_from_ocr(words, 1, geometry ? bbox => to_source_bbox(bbox, geometry) : undefined),
+      file_type,
+      text_source: 'ocr',
+      page_count: 1,
+      preprocessing: preprocessed.steps,
+    };
+  }
+
+  signal?.throwIfAborted();
+  const pages = await read_pdf_pages(buffer);
+  const page_texts: string[] = [];
+  const words: TextWord[] = [];
+  let ocr_pages = 0;
+
+  for (const page of pages) {
+    signal?.throwIfAborted();
+    if (page.image) {
+      const result = await recognize_image(page.image, parameters, signal);
+      const width = page.image_width || 1;
+      const height = page.image_height || 1;
+      page_texts.push(result.text);
+      words.push(...words_from_ocr(result.words, page.page_number, bbox => ({
+        x0: bbox.x0 / width,
+        y0: bbox.y0 / height,
+        x1: bbox.x1 / width,
+        y1: bbox.y1 / height,
+      })));
+      ocr_pages++;
+    } else {
+      page_texts.push(page.text);
+      words.push(...page.items.map(item => ({
+        text: item.text,
+        confidence: 1,
+        page: page.page_number,
+        bbox: item.bbox,
+      })));
+    }
+  }
+
+  let text_source: TextSource = 'pdf_mixed';
+  if (ocr_pages === 0) text_source = 'pdf_text';
+  else if (ocr_pages === pages.length) text_source = 'pdf_ocr';
+
+  logger.info(`Read PDF with ${pages.length} page(s), ${ocr_pages} rasterised for OCR`);
+
+  return {
+    text: page_texts.join('\n\n'),
+    words,
+    file_type,
+    text_source,
+    page_count: pages.length,
+    preprocessing: [], // Rendered pages are already clean
+  };
+}
+
+/**
+ * Whether OCR read too little of the document to judge it; a PDF text layer is never low quality
+ */
+export function is_low_quality_text(document: DocumentTextResult): boolean {
+  if (document.text_source === 'pdf_text') return false;
+
+  if (document.text.replace(/\s+/g, '').length < MIN_LEGIBLE_CHARS) return true;
+
+  const { words } = document;
+  if (words.length === 0) return false;
+  const mean_confidence = words.reduce((sum, word) => sum + word.confidence, 0) / words.length;
+  return mean_confidence < MIN_MEAN_WORD_CONFIDENCE;
+}
+
+/**
+ * Error for text that failed a document type's check: LOW_IMAGE_QUALITY when OCR could barely read it, else the given code
+ */
+export function invalid_document_error(
+  document: DocumentTextResult,
+  code: ErrorCode,
+  message: string
+): Required<ResultError> {
+  if (is_low_quality_text(document)) {
+    return result_error('LOW_IMAGE_QUALITY', 'Too little legible text was read; upload a sharper, well-lit image');
+  }
+  return result_error(code, message);
+}
+
+export default {
+  extract_document_text,
+  is_low_quality_text,
+  invalid_document_error,
+};
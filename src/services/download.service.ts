@@ -0,0 +1,253 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { promises as dns } from 'dns';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { detect_file_type_from_bytes, type DetectedFileType } from '../utils/file-type.js';
+import { ServiceError, type ErrorCode } from '../utils/errors.js';
+
+export type DownloadErrorCode = Extract<ErrorCode, `DOWNLOAD_${string}`> | 'UNSUPPORTED_FORMAT';
+
+export class DownloadError extends ServiceError {
+  declare readonly code: DownloadErrorCode;
+  readonly status_code?: number; // Status the file server answered with, if it answered
+
+  constructor(code: DownloadErrorCode, message: string, status_code?: number) {
+    super(code, message);
+    this.name = 'DownloadError';
+    this.status_code = status_code;
+  }
+}
+
+export interface DownloadedFile {
+  buffer: Buffer;
+  content_type: string | null; // As sent by the server; file_type is what the bytes are
+  file_type: DetectedFileType;
+}
+
+const MAX_REDIRECTS = 3;
+
+// Loopback, private, link-local (incl. cloud metadata 169.254.169.254), CGNAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+function is_blocked_address(address: string): boolean {
+  if (env.download.allow_private_addresses) return false;
+  // BlockList matches IPv4-mapped IPv6 (::ffff:10.0.0.1) against the IPv4 ranges
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+function host_allowed(hostname: string): boolean {
+  const allowed = env.download.allowed_hosts;
+  if (allowed.length === 0) return true;
+
+  const host = hostname.toLowerCase();
+  return allowed.some(pattern =>
+    pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern
+  );
+}
+
+/**
+ * Check a URL against the scheme and host allowlists; literal IPs are checked here, names when they resolve
+ */
+function validate_url(file_url: string): URL {
+  let url: URL;
+  try {
+    url = new URL(file_url);
+  } catch {
+    throw new DownloadError('DOWNLOAD_INVALID_URL', 'File URL is not a valid URL');
+  }
+
+  const scheme = url.protocol.replace(/:$/, '');
+  if (!env.download.allowed_schemes.includes(scheme)) {
+    throw new DownloadError('DOWNLOAD_SCHEME_NOT_ALLOWED', `URL scheme ${scheme} is not allowed`);
+  }
+  if (scheme !== 'http' && scheme !== 'https') {
+    throw new DownloadError('DOWNLOAD_SCHEME_NOT_ALLOWED', `URL scheme ${scheme} is not supported`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!host_allowed(hostname)) {
+    throw new DownloadError('DOWNLOAD_HOST_NOT_ALLOWED', `Host ${hostname} is not allowed`);
+  }
+  if (net.isIP(hostname) && is_blocked_address(hostname)) {
+    throw new DownloadError('DOWNLOAD_PRIVATE_ADDRESS', `Host ${hostname} is a private or reserved address`);
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup for the HTTP client that refuses private addresses
+ * Checked at connect time, so a name cannot resolve to a public address when validated and a private one when used
+ */
+const safe_lookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { family: options.family, all: true })
+    .then(addresses => {
+      const blocked = addresses.find(entry => is_blocked_address(entry.address));
+      if (blocked) {
+        callback(new DownloadError('DOWNLOAD_PRIVATE_ADDRESS', `Host ${hostname} resolves to a private or reserved address`), '', 0);
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    })
+    .catch(() => {
+      callback(new DownloadError('DOWNLOAD_DNS_FAILED', `Host ${hostname} could not be resolved`), '', 0);
+    });
+};
+
+/**
+ * Error for a non-2xx answer
+ * Pre-signed S3 URLs answer 403 once they expire, so 401/403 mean the URL has to be issued again
+ */
+function http_error(status: number, status_message: string | undefined): DownloadError {
+  const message = `Download failed: ${status} ${status_message || ''}`.trim();
+  if (status === 401 || status === 403) {
+    return new DownloadError('DOWNLOAD_EXPIRED_URL', `${message}; the URL has expired or access was denied`, status);
+  }
+  if (status === 404 || status === 410) {
+    return new DownloadError('DOWNLOAD_NOT_FOUND', message, status);
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return new DownloadError('DOWNLOAD_UNAVAILABLE', message, status);
+  }
+  return new DownloadError('DOWNLOAD_HTTP_ERROR', message, status);
+}
+
+/**
+ * One GET request; resolves with the body, or the next URL for a redirect
+ */
+function request_once(url: URL, signal?: AbortSignal): Promise<{ file: DownloadedFile } | { redirect: string }> {
+  const { connect_timeout_ms, read_timeout_ms, max_bytes } = env.download;
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { lookup: safe_lookup, agent: false, timeout: read_timeout_ms, signal });
+
+    const fail = (error: DownloadError) => {
+      request.destroy(error);
+    };
+
+    // Connect timeout covers DNS, TCP and TLS; after that the read timeout applies between chunks
+    const connect_timer = setTimeout(
+      () => fail(new DownloadError('DOWNLOAD_CONNECT_TIMEOUT', `Could not connect to ${url.hostname} within ${connect_timeout_ms} ms`)),
+      connect_timeout_ms
+    );
+    request.on('socket', socket => {
+      socket.once(url.protocol === 'https:' ? 'secureConnect' : 'connect', () => clearTimeout(connect_timer));
+    });
+    request.on('timeout', () => {
+      fail(new DownloadError('DOWNLOAD_READ_TIMEOUT', `No data from ${url.hostname} for ${read_timeout_ms} ms`));
+    });
+
+    // Errors we raised keep their code; socket errors, before or during the body, are network errors
+    const network_error = (error: Error) => error instanceof DownloadError
+      ? error
+      : new DownloadError('DOWNLOAD_NETWORK_ERROR', `Download failed: ${error.message}`);
+
+    request.on('error', error => {
+      clearTimeout(connect_timer);
+      reject(network_error(error));
+    });
+
+    request.on('response', response => {
+      const status = response.statusCode || 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        resolve({ redirect: new URL(response.headers.location, url).toString() });
+        return;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        reject(http_error(status, response.statusMessage));
+        return;
+      }
+
+      const declared_length = Number(response.headers['content-length']);
+      if (declared_length > max_bytes) {
+        fail(new DownloadError('DOWNLOAD_TOO_LARGE', `File is ${declared_length} bytes, over the ${max_bytes} byte limit`));
+        return;
+      }
+
+      // Enforced while streaming, as Content-Length may be missing or wrong
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > max_bytes) {
+          fail(new DownloadError('DOWNLOAD_TOO_LARGE', `File is over the ${max_bytes} byte limit`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('error', error => reject(network_error(error)));
+      response.on('end', () => {
+        if (size > max_bytes) return;
+        const buffer = Buffer.concat(chunks);
+        resolve({
+          file: {
+            buffer,
+            content_type: response.headers['content-type'] || null,
+            file_type: detect_file_type_from_bytes(buffer),
+          },
+        });
+      });
+    });
+  });
+}
+
+/**
+ * Download a file from a pre-signed URL, enforcing the DOWNLOAD_* limits
+ * Redirects are followed up to MAX_REDIRECTS, each target checked like the original URL.
+ * The file type is sniffed from its bytes; anything that is not a PDF or image is rejected.
+ * Failures throw a DownloadError with a DOWNLOAD_* or UNSUPPORTED_FORMAT code
+ * Aborting `signal` cancels the download in flight
+ */
+export async function download_file(file_url: string, label: string = 'document', signal?: AbortSignal): Promise<DownloadedFile> {
+  let url = validate_url(file_url);
+
+  for (let redirects = 0; ; redirects++) {
+    signal?.throwIfAborted();
+    const outcome = await request_once(url, signal);
+
+    if ('redirect' in outcome) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new DownloadError('DOWNLOAD_TOO_MANY_REDIRECTS', `More than ${MAX_REDIRECTS} redirects downloading ${label}`);
+      }
+      url = validate_url(outcome.redirect);
+      continue;
+    }
+
+    const { file } = outcome;
+    if (file.file_type === 'unknown') {
+      throw new DownloadError(
+        'UNSUPPORTED_FORMAT',
+        `Downloaded ${label} is not a PDF or image${file.content_type ? ` (served as ${file.content_type})` : ''}`
+      );
+    }
+
+    logger.debug(`Downloaded ${label}: ${file.buffer.length} bytes, ${file.file_type}`);
+    return file;
+  }
+}
+
+export default {
+  download_file,
+};
@@ -0,0 +1,106 @@
+import logger from '../utils/logger.js';
+import { process_passport_files, type PassportOCRResult } from './passport.service.js';
+import { extract_flight_result, type FlightOCRResult } from './flight.service.js';
+import { extract_hotel_result, type HotelOCRResult } from './hotel.service.js';
+import { extract_visa_result, type VisaOCRResult } from './visa.service.js';
+import { extract_insurance_result, type InsuranceOCRResult } from './insurance.service.js';
+import { extract_national_id_result, type NationalIdOCRResult } from './national-id.service.js';
+import { classify_file, resolve_document_type, type ClassificationResult, type ResolvedDocumentType } from './classifier.service.js';
+import { invalid_document_error, type DocumentTextResult } from './document-text.service.js';
+import { download_file } from './download.service.js';
+
+export interface ExtractFile {
+  buffer: Buffer;
+  content_type: string | null;
+}
+
+export type ExtractOCRResult =
+  | PassportOCRResult
+  | FlightOCRResult
+  | HotelOCRResult
+  | VisaOCRResult
+  | InsuranceOCRResult
+  | NationalIdOCRResult;
+
+export interface ExtractResponse {
+  document_type: string; // Type the document was extracted as
+  reclassified_from?: string; // Requested type, when the classifier routed the document elsewhere
+  classification?: ClassificationResult; // Single-file documents only
+  result: ExtractOCRResult;
+}
+
+// Document types /process/extract accepts; "passport" takes the front and back pages together
+export const EXTRACT_DOCUMENT_TYPES = [
+  'passport', 'passport_front', 'passport_back', 'flight', 'hotel', 'visa', 'insurance', 'national_id', 'auto',
+];
+
+type SingleFileType = Exclude<ResolvedDocumentType, 'unknown' | 'passport_front' | 'passport_back'>;
+
+const EXTRACTORS: Record<SingleFileType, (document: DocumentTextResult, reference_date: Date) => ExtractOCRResult> = {
+  flight: extract_flight_result,
+  hotel: extract_hotel_result,
+  visa: extract_visa_result,
+  insurance: extract_insurance_result,
+  national_id: extract_national_id_result,
+};
+
+/**
+ * Download a file for extraction
+ */
+export async function download_extract_file(file_url: string, signal?: AbortSignal): Promise<ExtractFile> {
+  const file = await download_file(file_url, 'document', signal);
+  return { buffer: file.buffer, content_type: file.content_type };
+}
+
+/**
+ * Extract one document with the same services the worker uses, without publishing progress or calling main backend
+ * `back` is the passport back page when document_type is "passport"; aborting `signal` stops OCR before the next page
+ */
+export async function extract_single_document(
+  document_type: string,
+  file: ExtractFile,
+  back: ExtractFile | undefined,
+  reference_date: Date,
+  signal?: AbortSignal
+): Promise<ExtractResponse> {
+  if (document_type === 'passport' || document_type === 'passport_front' || document_type === 'passport_back') {
+    const front_buffer = document_type === 'passport_back' ? undefined : file.buffer;
+    const back_buffer = document_type === 'passport_back' ? file.buffer : back?.buffer;
+    return { document_type: 'passport', result: await process_passport_files(front_buffer, back_buffer, signal) };
+  }
+
+  // Tickets and other single-file documents are read and classified first, as in the worker
+  const { classification, document } = await classify_file(file.buffer, file.content_type, signal);
+  const resolved = resolve_document_type(document_type, classification);
+  const reclassified_from = resolved !== document_type ? document_type : undefined;
+
+  if (resolved === 'unknown') {
+    return {
+      document_type,
+      classification,
+      result: {
+        status: 'invalid',
+        ...invalid_document_error(document, 'UNKNOWN_DOCUMENT_TYPE', 'Document type could not be determined from its text'),
+        raw_text: document.text,
+      },
+    };
+  }
+
+  if (resolved === 'passport_front' || resolved === 'passport_back') {
+    logger.info(`Extracting document uploaded as ${document_type} as ${resolved}`);
+    const result = await process_passport_files(
+      resolved === 'passport_front' ? file.buffer : undefined,
+      resolved === 'passport_back' ? file.buffer : undefined,
+      signal
+    );
+    return { document_type: resolved, ...(reclassified_from ? { reclassified_from } : {}), classification, result };
+  }
+
+  const result = EXTRACTORS[resolved](document, reference_date);
+  return { document_type: resolved, ...(reclassified_from ? { reclassified_from } : {}), classification, result };
+}
+
+export default {
+  download_extract_file,
+  extract_single_document,
+};
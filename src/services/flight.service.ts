@@ -1,18 +1,51 @@
-import { createWorker } from 'tesseract.js';
 import logger from '../utils/logger.js';
+import { invalid_document_error, type DocumentTextResult, type TextSource } from './document-text.service.js';
+import { type ResultError } from '../utils/errors.js';
+import { set_normalised_date, set_normalised_time } from '../utils/date-time.js';
+import { build_confidence_report, type FieldLocation, type PatternTier } from './confidence.service.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
-export interface FlightOCRResult {
+export interface FlightPassenger {
+  title?: string;
+  name: string;
+  ticket_number?: string;
+}
+
+export interface FlightSegment {
+  flight_number?: string;
+  carrier?: string;
+  origin?: string; // Airport code
+  origin_name?: string;
+  destination?: string;
+  destination_name?: string;
+  departure_date?: string;
+  departure_date_iso?: string; // YYYY-MM-DD
+  departure_time?: string;
+  departure_time_iso?: string; // 24-hour HH:MM
+  arrival_date?: string;
+  arrival_date_iso?: string;
+  arrival_time?: string;
+  arrival_time_iso?: string;
+}
+
+export interface FlightOCRResult extends ResultError {
   status: 'success' | 'error' | 'invalid';
   data?: {
-    passenger_name?: string;
+    passenger_name?: string; // First passenger, kept for single-passenger consumers
+    passengers?: FlightPassenger[];
+    segments?: FlightSegment[]; // In travel order; the fields below are derived from the first and last segment
     flight_number?: string;
     pnr?: string;
     departure_date?: string;
+    departure_date_iso?: string; // YYYY-MM-DD
     departure_time?: string;
+    departure_time_iso?: string; // 24-hour HH:MM
     arrival_date?: string;
+    arrival_date_iso?: string;
     arrival_time?: string;
+    arrival_time_iso?: string;
+    unparsed_fields?: string[]; // Date/time fields that could not be normalised, e.g. "segments[1].arrival_date"
     departure_airport?: string;
     arrival_airport?: string;
     from?: string;
@@ -20,43 +53,323 @@ export interface FlightOCRResult {
     airline?: string;
     [key: string]: any;
   };
-  error?: string;
   raw_text?: string;
+  file_type?: string;
+  text_source?: TextSource;
+  page_count?: number;
+  preprocessing?: string[];
+  confidence?: Record<string, number>; // Field path -> 0-1, e.g. { "pnr": 0.95, "segments[0].origin": 0.88 }
+  locations?: Record<string, FieldLocation>; // Field path -> page and bounding box of its source text
+  needs_review?: boolean;
+  low_confidence_fields?: string[];
+  reclassified_from?: string; // Declared document_type when the classifier routed the document here
 }
 
+// Field path -> value and the pattern tier that produced it, for confidence scoring
+type ConfidenceFields = Record<string, { value: unknown; tier: PatternTier }>;
+
+// Words that mark a flight ticket; also used by the document classifier
+export const FLIGHT_KEYWORDS = [
+  'pnr',
+  'booking reference',
+  'flight',
+  'airline',
+  'departure',
+  'arrival',
+  'passenger',
+  'ticket',
+  'boarding',
+  'gate',
+  'seat',
+  'airport',
+];
+
 /**
  * Validate if extracted text is a valid flight ticket
  */
 function validate_flight_ticket(text: string): boolean {
   const lower_text = text.toLowerCase();
-  
-  // Check for flight-related keywords
-  const flight_keywords = [
-    'pnr',
-    'booking reference',
-    'flight',
-    'airline',
-    'departure',
-    'arrival',
-    'passenger',
-    'ticket',
-    'boarding',
-    'gate',
-    'seat',
-    'airport',
-  ];
 
-  const found_keywords = flight_keywords.filter(keyword => lower_text.includes(keyword));
+  const found_keywords = FLIGHT_KEYWORDS.filter(keyword => lower_text.includes(keyword));
   
   // Need at least 3 flight-related keywords to be considered valid
   return found_keywords.length >= 3;
 }
 
+const TITLE_MAP: Record<string, string> = {
+  MR: 'Mr',
+  MRS: 'Mrs',
+  MS: 'Ms',
+  MISS: 'Miss',
+  MSTR: 'Master',
+  MASTER: 'Master',
+  DR: 'Dr',
+};
+
+// Words that end a name when OCR runs a passenger row into the next column
+const NAME_STOP_WORDS = new Set([
+  'ADULT', 'CHILD', 'INFANT', 'SEAT', 'ECONOMY', 'BUSINESS', 'FLIGHT', 'TICKET', 'BAGGAGE',
+  'CHECK', 'CABIN', 'MEAL', 'PNR', 'BOOKING', 'STATUS', 'CONFIRMED', 'PASSENGER', 'ETICKET', 'E',
+]);
+
+const TICKET_NUMBER_PATTERN = /\b(\d{3}[-\s]?\d{10})\b/;
+
+function to_title_case(value: string): string {
+  return value
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function clean_passenger_name(raw: string): string {
+  const words: string[] = [];
+  for (const word of raw.trim().split(/\s+/)) {
+    if (NAME_STOP_WORDS.has(word.toUpperCase().replace(/[^A-Z]/g, ''))) break;
+    words.push(word);
+  }
+  return words.join(' ');
+}
+
+/**
+ * Extract every passenger listed on the ticket
+ * Handles "Mr Mahendra Patel" and airline "PATEL/MAHENDRA MR" formats; the e-ticket number
+ * is taken from the same line or the line below the name
+ */
+function extract_passengers(text: string): FlightPassenger[] {
+  const passengers: FlightPassenger[] = [];
+  const seen = new Set<string>();
+  const lines = text.split('\n');
+  const false_positives = ['Information', 'Booking Reference', 'Payment Status', 'Complete', 'Abu Dhabi', 'Mumbai', 'Travel Time'];
+
+  const add = (title: string | undefined, name: string, line_index: number) => {
+    const cleaned = clean_passenger_name(name);
+    if (cleaned.split(' ').length < 2) return;
+    if (false_positives.some(fp => cleaned.toLowerCase().includes(fp.toLowerCase()))) return;
+
+    const key = cleaned.toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const ticket_match = lines[line_index].match(TICKET_NUMBER_PATTERN)
+      || (lines[line_index + 1] || '').match(TICKET_NUMBER_PATTERN);
+
+    passengers.push({
+      ...(title ? { title: TITLE_MAP[title.toUpperCase()] } : {}),
+      name: cleaned,
+      ...(ticket_match ? { ticket_number: ticket_match[1].replace(/[-\s]/g, '') } : {}),
+    });
+  };
+
+  lines.forEach((line, index) => {
+    // SURNAME/GIVEN NAMES MR
+    for (const match of line.matchAll(/\b([A-Z][A-Z-]+)\/([A-Z][A-Z ]*?[A-Z])(?:\s+(MRS|MR|MS|MISS|MSTR|DR))?\b/g)) {
+      const surname = match[1].trim();
+      const given = match[2].trim();
+      // Without a title, short pairs are more likely routes (BOM/AUH) than names
+      if (!match[3] && (surname.length <= 3 || given.length <= 3)) continue;
+      add(match[3], `${to_title_case(given)} ${to_title_case(surname)}`, index);
+    }
+
+    // Mr Mahendra Patel / MR MAHENDRA PATEL
+    for (const match of line.matchAll(/\b(Mrs|Mr|Ms|Miss|Mstr|Master|Dr|MRS|MR|MS|MISS|MSTR|MASTER|DR)\.?\s+([A-Z][A-Za-z-]+(?: +[A-Z][A-Za-z-]+){1,3})/g)) {
+      add(match[1], to_title_case(match[2]), index);
+    }
+  });
+
+  return passengers;
+}
+
+// IATA flight number: two-character carrier code (at least one letter) and 1-4 digits, e.g. "6E 1402", "EK501", "BA 15"
+// Three-letter codes are not accepted; they collide with month abbreviations ("Apr 2025"). AM/PM right after
+// a time ("10:30 PM 12 Apr") and digits that run into a time or date ("T2 10:30") are not flight numbers
+const FLIGHT_NUMBER_PATTERN = /\b(?!(?<=\d\s?)[AP]M)([A-Z][A-Z0-9]|[0-9][A-Z])\s?(\d{1,4})\b(?![:.]\d)/;
+
+// Lines that print a duration rather than a clock time
+const DURATION_LINE_PATTERN = /duration|travel\s+time|layover|stopover|connection\s+time|journey\s+time/i;
+
+interface AirportMatch {
+  index: number;
+  code: string;
+  name?: string;
+}
+
+/**
+ * Find airport codes in reading order
+ * Recognises "BOM - Chhatrapati Shivaji Maharaj International Airport", "BOM to AUH", "BOM - AUH" and "Mumbai (BOM)"
+ */
+function find_airports(text: string): AirportMatch[] {
+  const matches: AirportMatch[] = [];
+
+  for (const match of text.matchAll(/\b([A-Z]{3})[ \t]+-[ \t]+([A-Za-z ]+?(?:International Airport|Airport))/g)) {
+    matches.push({ index: match.index!, code: match[1], name: match[2].trim() });
+  }
+
+  for (const match of text.matchAll(/\b([A-Z]{3})[ \t]*(?:to|-|–|>|→)[ \t]*([A-Z]{3})\b/g)) {
+    matches.push({ index: match.index!, code: match[1] });
+    matches.push({ index: match.index! + match[0].length - 3, code: match[2] });
+  }
+
+  for (const match of text.matchAll(/\(([A-Z]{3})\)/g)) {
+    matches.push({ index: match.index!, code: match[1] });
+  }
+
+  // Order by position; a code listed twice in a row (code line, then name line) is one airport
+  const ordered = matches.sort((a, b) => a.index - b.index || (b.name ? 1 : 0) - (a.name ? 1 : 0));
+  const airports: AirportMatch[] = [];
+  for (const airport of ordered) {
+    const previous = airports[airports.length - 1];
+    if (previous && previous.code === airport.code) {
+      previous.name = previous.name || airport.name;
+      continue;
+    }
+    airports.push(airport);
+  }
+
+  return airports;
+}
+
+/**
+ * Extract one segment's fields from the part of the ticket that describes it
+ */
+function extract_segment(block: string, flight_number?: string): FlightSegment {
+  const segment: FlightSegment = {};
+
+  if (flight_number) {
+    segment.flight_number = flight_number;
+    segment.carrier = flight_number.substring(0, 2);
+  }
+
+  const airports = find_airports(block);
+  if (airports.length >= 1) {
+    segment.origin = airports[0].code;
+    segment.origin_name = airports[0].name;
+  }
+  const destination = airports.find(airport => airport.code !== segment.origin);
+  if (destination) {
+    segment.destination = destination.code;
+    segment.destination_name = destination.name;
+  }
+
+  // Fallback: airport names without codes
+  if (!segment.origin_name || !segment.destination_name) {
+    const names = [...new Set(
+      [...block.matchAll(/([A-Z][a-zA-Z ]+(?:International Airport|Airport))/g)].map(match => match[1].trim())
+    )];
+    if (!segment.origin && names.length >= 1) segment.origin_name = names[0];
+    if (!segment.destination && names.length >= 2) segment.destination_name = names[1];
+  }
+
+  // Dates (e.g. "21 Apr 2025", "21/04/2025"), in reading order
+  const dates = [...block.matchAll(
+    /(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+(\d{4})|(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/gi
+  )].map(match => match[0]);
+  if (dates.length >= 1) segment.departure_date = dates[0];
+  if (dates.length >= 2) segment.arrival_date = dates[1];
+
+  // Times (e.g. "21:55 hrs"), skipping durations such as "Travel Time 02:30 hrs"
+  const times = block
+    .split('\n')
+    .filter(line => !DURATION_LINE_PATTERN.test(line))
+    .flatMap(line => [...line.matchAll(/(\d{1,2}):(\d{2})\s*(?:hrs|hours|am|pm)?/gi)].map(match => match[0].trim()));
+  if (times.length >= 1) segment.departure_time = times[0];
+  if (times.length >= 2) segment.arrival_time = times[1];
+
+  return segment;
+}
+
+/**
+ * Split the ticket into flight segments
+ * Each flight number anchors a segment. Tickets print segment details either after the flight number
+ * or before it; if a route appears before the first flight number, each segment's block ends at its
+ * flight number, otherwise it starts there
+ */
+function extract_segments(text: string): FlightSegment[] {
+  const lines = text.split('\n');
+  const anchors: Array<{ line: number; flight_number: string }> = [];
+
+  lines.forEach((line, index) => {
+    const match = line.match(FLIGHT_NUMBER_PATTERN);
+    if (match) {
+      anchors.push({ line: index, flight_number: `${match[1]}${match[2]}` });
+    }
+  });
+
+  if (anchors.length === 0) {
+    const segment = extract_segment(text);
+    return Object.keys(segment).length > 0 ? [segment] : [];
+  }
+
+  const details_before = find_airports(lines.slice(0, anchors[0].line).join('\n')).length >= 2;
+
+  // The same flight may be listed twice (summary and detail); merge its blocks
+  const by_flight = new Map<string, FlightSegment>();
+  anchors.forEach((anchor, i) => {
+    const block = details_before
+      ? lines.slice(i === 0 ? 0 : anchors[i - 1].line + 1, anchor.line + 1)
+      : lines.slice(anchor.line, i + 1 < anchors.length ? anchors[i + 1].line : lines.length);
+
+    const segment = extract_segment(block.join('\n'), anchor.flight_number);
+    const existing = by_flight.get(anchor.flight_number);
+    if (existing) {
+      for (const [key, value] of Object.entries(segment) as Array<[keyof FlightSegment, string | undefined]>) {
+        if (value && !existing[key]) existing[key] = value;
+      }
+    } else {
+      by_flight.set(anchor.flight_number, segment);
+    }
+  });
+
+  // Drop stray matches that carry no route or schedule (e.g. a reference number shaped like a flight number)
+  const segments = [...by_flight.values()];
+  const with_details = segments.filter(segment => segment.origin || segment.departure_time);
+  return with_details.length > 0 ? with_details : segments.slice(0, 1);
+}
+
+/**
+ * Add ISO dates and 24-hour times next to the raw schedule fields
+ * Arrival dates without a year are read relative to the departure date
+ */
+function normalise_schedule(
+  target: Record<string, any>,
+  unparsed: string[],
+  reference_date?: Date
+): void {
+  const departure = set_normalised_date(target, 'departure_date', unparsed, { reference_date });
+  set_normalised_date(target, 'arrival_date', unparsed, {
+    reference_date: departure ? new Date(departure) : reference_date,
+  });
+  set_normalised_time(target, 'departure_time', unparsed);
+  set_normalised_time(target, 'arrival_time', unparsed);
+}
+
+/**
+ * Pattern tiers of a segment's fields: codes and flight numbers have a distinctive shape,
+ * dates and times are assigned by their order within the segment
+ */
+function add_segment_confidence_fields(segment: FlightSegment, prefix: string, fields: ConfidenceFields): void {
+  fields[`${prefix}flight_number`] = { value: segment.flight_number, tier: 'structured' };
+  fields[`${prefix}carrier`] = { value: segment.carrier, tier: 'structured' };
+  fields[`${prefix}origin`] = { value: segment.origin, tier: 'structured' };
+  fields[`${prefix}origin_name`] = { value: segment.origin_name, tier: segment.origin ? 'structured' : 'positional' };
+  fields[`${prefix}destination`] = { value: segment.destination, tier: 'structured' };
+  fields[`${prefix}destination_name`] = { value: segment.destination_name, tier: segment.destination ? 'structured' : 'positional' };
+  fields[`${prefix}departure_date`] = { value: segment.departure_date, tier: 'positional' };
+  fields[`${prefix}departure_time`] = { value: segment.departure_time, tier: 'positional' };
+  fields[`${prefix}arrival_date`] = { value: segment.arrival_date, tier: 'positional' };
+  fields[`${prefix}arrival_time`] = { value: segment.arrival_time, tier: 'positional' };
+}
+
 /**
  * Extract flight information from OCR text with improved accuracy
+ * Also returns each field's value and pattern tier for confidence scoring
  */
-function extract_flight_data(text: string): NonNullable<FlightOCRResult['data']> {
+function extract_flight_data(
+  text: string,
+  reference_date?: Date
+): { data: NonNullable<FlightOCRResult['data']>; fields: ConfidenceFields } {
   const data: NonNullable<FlightOCRResult['data']> = {};
+  const fields: ConfidenceFields = {};
   
   // Extract PNR/Booking Reference (6 alphanumeric characters, often after "PNR" or "Booking Reference")
   const pnr_patterns = [
@@ -64,10 +377,11 @@ function extract_flight_data(text: string): NonNullable<FlightOCRResult['data']>
     /\b([A-Z0-9]{6})\b(?!\s*(?:hrs|hours|pm|am))/i, // 6 char code not followed by time
   ];
   
-  for (const pattern of pnr_patterns) {
+  for (const [index, pattern] of pnr_patterns.entries()) {
     const match = text.match(pattern);
     if (match && match[1] && match[1].length === 6) {
       data.pnr = match[1].toUpperCase();
+      fields.pnr = { value: data.pnr, tier: index === 0 ? 'labelled' : 'fallback' };
       break;
     }
   }
@@ -79,7 +393,8 @@ function extract_flight_data(text: string): NonNullable<FlightOCRResult['data']>
     /(?:passenger|name)[:\s]+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)/i,
   ];
   
-  for (const pattern of name_patterns) {
+  let passenger_name_tier: PatternTier = 'positional';
+  for (const [index, pattern] of name_patterns.entries()) {
     const match = text.match(pattern);
     if (match && match[1]) {
       const name = match[1].trim();
@@ -87,6 +402,7 @@ function extract_flight_data(text: string): NonNullable<FlightOCRResult['data']>
       const false_positives = ['Information', 'Booking Reference', 'Payment Status', 'Complete', 'Abu Dhabi', 'Mumbai', 'Travel Time'];
       if (!false_positives.some(fp => name.includes(fp))) {
         data.passenger_name = name;
+        passenger_name_tier = index === 0 ? 'structured' : 'labelled';
         break;
       }
     }
@@ -100,203 +416,108 @@ function extract_flight_data(text: string): NonNullable<FlightOCRResult['data']>
     }
   }
 
-  // Extract flight number (airline code + numbers, e.g., "6E 1402", "6E 1429")
-  const flight_patterns = [
-    /([A-Z]{2,3})\s*(\d{3,4})\b/i, // Matches "6E 1402" or "6E1429"
-    /\b([A-Z]{2,3}\s?\d{3,4})\b/i,
-  ];
-  
-  for (const pattern of flight_patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const flight_num = match[0].replace(/\s/g, '').toUpperCase();
-      // Filter out dates and times
-      if (!flight_num.match(/^\d+$/) && flight_num.length >= 4) {
-        data.flight_number = flight_num;
-        break;
-      }
-    }
+  // Extract all passengers (family/group PNRs list several on one ticket)
+  const passengers = extract_passengers(text);
+  if (passengers.length > 0) {
+    passenger_name_tier = 'structured';
+  } else if (data.passenger_name) {
+    passengers.push({ name: data.passenger_name });
   }
-
-  // Extract airline code (from flight number or standalone)
-  if (data.flight_number) {
-    const airline_match = data.flight_number.match(/^([A-Z]{2,3})/);
-    if (airline_match) {
-      data.airline = airline_match[1];
-    }
+  if (passengers.length > 0) {
+    data.passengers = passengers;
+    data.passenger_name = passengers[0].name;
+    fields.passenger_name = { value: data.passenger_name, tier: passenger_name_tier };
+    passengers.forEach((passenger, index) => {
+      fields[`passengers[${index}].name`] = { value: passenger.name, tier: passenger_name_tier };
+      fields[`passengers[${index}].ticket_number`] = { value: passenger.ticket_number, tier: 'structured' };
+    });
   }
 
-  // Extract dates (look for patterns like "21 Apr 2025", "23 Apr 2025")
-  const date_patterns = [
-    /(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+(\d{4})/gi,
-    /(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/g,
-  ];
-  
-  const dates: string[] = [];
-  for (const pattern of date_patterns) {
-    const matches = text.matchAll(pattern);
-    for (const match of matches) {
-      if (match[0]) {
-        dates.push(match[0]);
-      }
-    }
-  }
-  
-  if (dates.length >= 1) {
-    data.departure_date = dates[0];
-  }
-  if (dates.length >= 2) {
-    data.arrival_date = dates[1];
-  }
+  // Extract itinerary: one segment per flight, top-level fields from the first and last segment
+  const segments = extract_segments(text);
+  if (segments.length > 0) {
+    const first = segments[0];
+    const last = segments[segments.length - 1];
 
-  // Extract times (look for patterns like "21:55 hrs", "02:30 hrs")
-  const time_patterns = [
-    /(\d{1,2}):(\d{2})\s*(?:hrs|hours|am|pm)?/gi,
-  ];
-  
-  const times: string[] = [];
-  for (const pattern of time_patterns) {
-    const matches = text.matchAll(pattern);
-    for (const match of matches) {
-      if (match[0]) {
-        times.push(match[0].trim());
-      }
-    }
-  }
-  
-  if (times.length >= 1) {
-    data.departure_time = times[0];
-  }
-  if (times.length >= 2) {
-    data.arrival_time = times[1];
-  }
+    data.segments = segments;
+    data.flight_number = first.flight_number;
+    data.airline = first.carrier;
+    data.departure_airport = first.origin;
+    data.from = first.origin_name || first.origin;
+    data.departure_date = first.departure_date;
+    data.departure_time = first.departure_time;
+    data.arrival_airport = last.destination;
+    data.to = last.destination_name || last.destination;
+    data.arrival_date = last.arrival_date;
+    data.arrival_time = last.arrival_time;
 
-  // Extract airports - look for patterns like "BOM - Chhatrapati Shivaji Maharaj International Airport"
-  const airport_patterns = [
-    /([A-Z]{3})\s+-\s+([A-Za-z\s]+(?:Airport|International Airport))/i,
-    /([A-Z]{3})\s+to\s+([A-Z]{3})/i,
-    /([A-Z]{3})\s+-\s+([A-Za-z\s]+)/i,
-  ];
-  
-  const airport_matches: Array<{code: string, name: string}> = [];
-  for (const pattern of airport_patterns) {
-    const matches = text.matchAll(new RegExp(pattern.source, 'gi'));
-    for (const match of matches) {
-      if (match[1] && match[2]) {
-        airport_matches.push({
-          code: match[1].toUpperCase(),
-          name: match[2].trim()
-        });
-      }
-    }
+    segments.forEach((segment, index) => add_segment_confidence_fields(segment, `segments[${index}].`, fields));
+    fields.flight_number = fields['segments[0].flight_number'];
+    fields.airline = fields['segments[0].carrier'];
+    fields.departure_airport = fields['segments[0].origin'];
+    fields.from = first.origin_name ? fields['segments[0].origin_name'] : fields['segments[0].origin'];
+    fields.departure_date = fields['segments[0].departure_date'];
+    fields.departure_time = fields['segments[0].departure_time'];
+    fields.arrival_airport = fields[`segments[${segments.length - 1}].destination`];
+    fields.to = last.destination_name
+      ? fields[`segments[${segments.length - 1}].destination_name`]
+      : fields[`segments[${segments.length - 1}].destination`];
+    fields.arrival_date = fields[`segments[${segments.length - 1}].arrival_date`];
+    fields.arrival_time = fields[`segments[${segments.length - 1}].arrival_time`];
   }
-  
-  // First match is usually departure, second is arrival
-  if (airport_matches.length >= 1) {
-    data.departure_airport = airport_matches[0].code;
-    data.from = airport_matches[0].name || airport_matches[0].code;
-  }
-  if (airport_matches.length >= 2) {
-    data.arrival_airport = airport_matches[1].code;
-    data.to = airport_matches[1].name || airport_matches[1].code;
-  }
-  
-  // Fallback: Extract full airport names if codes not found
-  if (!data.from || !data.to) {
-    const airport_name_patterns = [
-      /([A-Z][a-zA-Z\s]+(?:Airport|International Airport))/g,
-    ];
-    
-    const airports: string[] = [];
-    for (const pattern of airport_name_patterns) {
-      const matches = text.matchAll(pattern);
-      for (const match of matches) {
-        if (match[1] && !airports.includes(match[1])) {
-          airports.push(match[1].trim());
-        }
-      }
-    }
-    
-    if (airports.length >= 1 && !data.from) {
-      data.from = airports[0];
-    }
-    if (airports.length >= 2 && !data.to) {
-      data.to = airports[1];
-    }
+
+  // Normalised dates and times, per segment and for the derived top-level fields
+  const unparsed: string[] = [];
+  normalise_schedule(data, unparsed, reference_date);
+  segments.forEach((segment, index) => {
+    const segment_unparsed: string[] = [];
+    normalise_schedule(segment, segment_unparsed, reference_date);
+    unparsed.push(...segment_unparsed.map(field => `segments[${index}].${field}`));
+  });
+  if (unparsed.length > 0) {
+    data.unparsed_fields = unparsed;
   }
 
-  return data;
+  return { data, fields };
 }
 
 /**
- * Process flight ticket OCR
+ * Validate and extract a flight ticket from document text that has already been read
+ * reference_date (the order's travel date, or when it was submitted) resolves dates printed without a year
  */
-export async function process_flight_ocr(file_url: string): Promise<FlightOCRResult> {
-  try {
-    // Download file from pre-signed URL
-    logger.info(`Processing flight ticket: ${file_url.substring(0, 80)}...`);
-    
-    const response = await fetch(file_url);
-    if (!response.ok) {
-      throw new Error(`Failed to download flight ticket: ${response.status} ${response.statusText}`);
-    }
-    const file_buffer = Buffer.from(await response.arrayBuffer());
-
-    // Initialize Tesseract worker with better config
-    const worker = await createWorker('eng', 1, {
-      logger: (m) => {
-        if (m.status === 'recognizing text') {
-          // Suppress verbose logging
-        }
-      },
-    });
-    
-    try {
-      // Set Tesseract parameters for better OCR accuracy
-      await worker.setParameters({
-        tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 :/-.,\n',
-      });
-      
-      // Perform OCR
-      const { data: { text } } = await worker.recognize(file_buffer);
-      
-      logger.info(`Flight OCR extracted ${text.length} characters`);
-
-      // Validate if it's a flight ticket
-      if (!validate_flight_ticket(text)) {
-        logger.warn('Extracted text does not appear to be a valid flight ticket');
-        return {
-          status: 'invalid',
-          error: 'Text does not contain flight ticket information',
-          raw_text: text,
-        };
-      }
-
-      // Extract flight data
-      const extracted_data = extract_flight_data(text);
+export function extract_flight_result(document: DocumentTextResult, reference_date?: Date): FlightOCRResult {
+  const { text, words, file_type, text_source, page_count, preprocessing } = document;
+  const source_info = { file_type, text_source, page_count, preprocessing };
 
-      // Ensure we have at least PNR or passenger name
-      if (!extracted_data.pnr && !extracted_data.passenger_name) {
-        logger.warn('Could not extract essential flight information');
-      }
-
-      return {
-        status: 'success',
-        data: extracted_data,
-        raw_text: text,
-      };
-    } finally {
-      await worker.terminate();
-    }
-  } catch (error) {
-    logger.error('Flight OCR failed:', error);
+  // Validate if it's a flight ticket
+  if (!validate_flight_ticket(text)) {
+    logger.warn('Extracted text does not appear to be a valid flight ticket');
     return {
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 'invalid',
+      ...invalid_document_error(document, 'NOT_A_FLIGHT_TICKET', 'Text does not contain flight ticket information'),
+      raw_text: text,
+      ...source_info,
     };
   }
+
+  // Extract flight data
+  const { data: extracted_data, fields } = extract_flight_data(text, reference_date);
+  const confidence_report = build_confidence_report(fields, words);
+
+  // Ensure we have at least PNR or passenger name
+  if (!extracted_data.pnr && !extracted_data.passenger_name) {
+    logger.warn('Could not extract essential flight information');
+  }
+
+  return {
+    status: 'success',
+    data: extracted_data,
+    raw_text: text,
+    ...source_info,
+    ...confidence_report,
+  };
 }
 
 export default {
-  process_flight_ocr,
+  extract_flight_result,
 };
@@ -1,61 +1,164 @@
-import { createWorker } from 'tesseract.js';
 import logger from '../utils/logger.js';
+import { invalid_document_error, type DocumentTextResult, type TextSource } from './document-text.service.js';
+import { type ResultError } from '../utils/errors.js';
+import { set_normalised_date, set_normalised_time } from '../utils/date-time.js';
+import { parse_name_list, unique_names } from '../utils/text-fields.js';
+import { build_confidence_report, type FieldLocation, type PatternTier } from './confidence.service.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
-export interface HotelOCRResult {
+export interface HotelOCRResult extends ResultError {
   status: 'success' | 'error' | 'invalid';
   data?: {
-    guest_name?: string;
+    guest_name?: string; // First guest, kept for single-guest consumers
+    guests?: string[];
+    guest_count?: number;
+    room_count?: number;
     hotel_name?: string;
     booking_reference?: string;
     confirmation_code?: string;
     check_in_date?: string;
+    check_in_date_iso?: string; // YYYY-MM-DD
     check_in_time?: string;
+    check_in_time_iso?: string; // 24-hour HH:MM
     check_out_date?: string;
+    check_out_date_iso?: string;
     check_out_time?: string;
+    check_out_time_iso?: string;
+    unparsed_fields?: string[]; // Date/time fields that could not be normalised
     place?: string;
     address?: string;
     [key: string]: any;
   };
-  error?: string;
   raw_text?: string;
+  file_type?: string;
+  text_source?: TextSource;
+  page_count?: number;
+  preprocessing?: string[];
+  confidence?: Record<string, number>; // Field path -> 0-1, e.g. { "confirmation_code": 0.95, "guests[1]": 0.82 }
+  locations?: Record<string, FieldLocation>; // Field path -> page and bounding box of its source text
+  needs_review?: boolean;
+  low_confidence_fields?: string[];
+  reclassified_from?: string; // Declared document_type when the classifier routed the document here
 }
 
+// Field path -> value and the pattern tier that produced it, for confidence scoring
+type ConfidenceFields = Record<string, { value: unknown; tier: PatternTier }>;
+
+// Words that mark a hotel booking; also used by the document classifier
+export const HOTEL_KEYWORDS = [
+  'hotel',
+  'booking',
+  'reservation',
+  'check-in',
+  'check-out',
+  'check in',
+  'check out',
+  'guest',
+  'room',
+  'accommodation',
+  'confirmation',
+  'villa',
+  'host',
+];
+
 /**
  * Validate if extracted text is a valid hotel booking
  */
 function validate_hotel_booking(text: string): boolean {
   const lower_text = text.toLowerCase();
-  
-  // Check for hotel-related keywords
-  const hotel_keywords = [
-    'hotel',
-    'booking',
-    'reservation',
-    'check-in',
-    'check-out',
-    'check in',
-    'check out',
-    'guest',
-    'room',
-    'accommodation',
-    'confirmation',
-    'villa',
-    'host',
-  ];
 
-  const found_keywords = hotel_keywords.filter(keyword => lower_text.includes(keyword));
+  const found_keywords = HOTEL_KEYWORDS.filter(keyword => lower_text.includes(keyword));
   
   // Need at least 3 hotel-related keywords to be considered valid
   return found_keywords.length >= 3;
 }
 
+// Lines that introduce guest names, e.g. "Who's coming", "Guest Name: Rashi Patel", "Room 1: Mr John Doe"
+const GUEST_HEADER_PATTERN = /^\s*(who'?s\s+coming|guest\s+names?|guests?(?:\s+details)?|lead\s+guest|primary\s+guest|room\s+\d+(?:\s+guests?)?)\s*[:\-]?\s*(.*)$/i;
+
+// Words that end a name when OCR runs a guest row into the next column
+const GUEST_STOP_WORDS = new Set([
+  'ADULT', 'ADULTS', 'CHILD', 'CHILDREN', 'INFANT', 'GUEST', 'GUESTS', 'ROOM', 'ROOMS', 'NIGHT', 'NIGHTS',
+  'CHECKIN', 'CHECKOUT', 'CHECK', 'TOTAL', 'PAID', 'AMOUNT', 'BEDROOM', 'BOOKING', 'CONFIRMATION', 'MORE',
+]);
+
+/**
+ * Extract every guest listed on the booking
+ * Names come from the rest of a guest header line and, for list sections such as "Who's coming",
+ * from the lines directly below it
+ */
+function extract_guests(text: string): string[] {
+  const guests: string[] = [];
+  const lines = text.split('\n');
+
+  lines.forEach((line, index) => {
+    const header = line.match(GUEST_HEADER_PATTERN);
+    if (!header) return;
+
+    guests.push(...parse_name_list(header[2], GUEST_STOP_WORDS));
+
+    // Only list sections continue onto following lines
+    if (header[2].trim() && !/^\d+\s+(?:guests?|adults?)/i.test(header[2].trim())) return;
+
+    for (const next of lines.slice(index + 1, index + 6)) {
+      if (GUEST_HEADER_PATTERN.test(next)) break;
+      if (/^\s*\d+\s+(?:guests?|adults?)/i.test(next)) continue; // "4 guests" under "Who's coming"
+      const names = parse_name_list(next, GUEST_STOP_WORDS);
+      if (names.length === 0) break;
+      guests.push(...names);
+    }
+  });
+
+  return unique_names(guests);
+}
+
+/**
+ * Extract the number of guests ("4 guests", "2 Adults, 1 Child", "Guests: 3")
+ */
+function extract_guest_count(text: string): number | undefined {
+  const guests_match = text.match(/\b(\d{1,2})[ \t]+guests?\b/i) || text.match(/guests?\s*:\s*(\d{1,2})\b/i);
+  if (guests_match) {
+    return Number(guests_match[1]);
+  }
+
+  const adults = text.match(/\b(\d{1,2})[ \t]+adults?\b/i);
+  if (adults) {
+    const children = text.match(/\b(\d{1,2})[ \t]+(?:child|children|kids?)\b/i);
+    return Number(adults[1]) + (children ? Number(children[1]) : 0);
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract the number of rooms booked ("2 Rooms", "Rooms: 2", or numbered "Room 1" / "Room 2" sections)
+ * Bedroom counts of a villa describe the property, not the booking, and are ignored
+ */
+function extract_room_count(text: string): number | undefined {
+  const count_match = text.match(/\b(\d{1,2})[ \t]*(?:x[ \t]*)?rooms?\b/i) || text.match(/(?:no\.?\s+of\s+)?rooms?\s*:\s*(\d{1,2})\b/i);
+  if (count_match) {
+    return Number(count_match[1]);
+  }
+
+  const numbered = new Set([...text.matchAll(/\broom\s+(\d{1,2})\s*:/gi)].map(match => match[1]));
+  if (numbered.size > 0) {
+    return numbered.size;
+  }
+
+  return undefined;
+}
+
 /**
  * Extract hotel information from OCR text with improved accuracy
+ * Also returns each field's value and pattern tier for confidence scoring
  */
-function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
+function extract_hotel_data(
+  text: string,
+  reference_date?: Date
+): { data: NonNullable<HotelOCRResult['data']>; fields: ConfidenceFields } {
   const data: NonNullable<HotelOCRResult['data']> = {};
+  const fields: ConfidenceFields = {};
   
   // Extract hotel name (look for patterns like "6 Bedroom Villa. Dubai Hills.")
   const hotel_patterns = [
@@ -64,10 +167,12 @@ function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
     /hotel[:\s]+([A-Z][a-zA-Z\s&]+)/i,
   ];
   
-  for (const pattern of hotel_patterns) {
+  const hotel_name_tiers: PatternTier[] = ['structured', 'positional', 'labelled'];
+  for (const [index, pattern] of hotel_patterns.entries()) {
     const match = text.match(pattern);
     if (match && match[1]) {
       data.hotel_name = match[1].trim().replace(/\.$/, '');
+      fields.hotel_name = { value: data.hotel_name, tier: hotel_name_tiers[index] };
       break;
     }
   }
@@ -80,11 +185,14 @@ function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
     /\b([A-Z0-9]{8,12})\b(?!\s*(?:paid|amount|guests))/i, // 8-12 char code
   ];
   
-  for (const pattern of confirmation_patterns) {
+  for (const [index, pattern] of confirmation_patterns.entries()) {
     const match = text.match(pattern);
     if (match && match[1]) {
       data.confirmation_code = match[1].toUpperCase();
       data.booking_reference = match[1].toUpperCase();
+      const tier: PatternTier = index < confirmation_patterns.length - 1 ? 'labelled' : 'fallback';
+      fields.confirmation_code = { value: data.confirmation_code, tier };
+      fields.booking_reference = { value: data.booking_reference, tier };
       break;
     }
   }
@@ -103,6 +211,7 @@ function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
       const time_match = text.match(/check[- ]?in[:\s]*(\d{1,2}):(\d{2})\s*(AM|PM)/i);
       if (time_match) {
         data.check_in_time = `${time_match[1]}:${time_match[2]} ${time_match[3]}`;
+        fields.check_in_time = { value: data.check_in_time, tier: 'labelled' };
       }
       
       // Extract date
@@ -127,6 +236,7 @@ function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
       if (match[1] && match[2] && match[3] && match[1].length <= 2) {
         // Has time
         data.check_out_time = `${match[1]}:${match[2]} ${match[3]}`;
+        fields.check_out_time = { value: data.check_out_time, tier: 'labelled' };
       }
     }
   }
@@ -150,12 +260,18 @@ function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
   if (times_match) {
     if (!data.check_in_time) {
       data.check_in_time = `${times_match[1]}:${times_match[2]} ${times_match[3]}`;
+      fields.check_in_time = { value: data.check_in_time, tier: 'positional' };
     }
     if (!data.check_out_time) {
       data.check_out_time = `${times_match[4]}:${times_match[5]} ${times_match[6]}`;
+      fields.check_out_time = { value: data.check_out_time, tier: 'positional' };
     }
   }
 
+  // Check-in and check-out dates are the first and second dates on the booking
+  fields.check_in_date = { value: data.check_in_date, tier: 'positional' };
+  fields.check_out_date = { value: data.check_out_date, tier: 'positional' };
+
   // Extract place/location (look for city, country, or address)
   const place_patterns = [
     /address[:\s]+([A-Z][a-zA-Z\s,]+(?:Emirates|Country|State|City))/i,
@@ -163,7 +279,7 @@ function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
     /([A-Z][a-zA-Z\s,]+(?:United Arab Emirates|UAE|USA|UK))/i,
   ];
   
-  for (const pattern of place_patterns) {
+  for (const [index, pattern] of place_patterns.entries()) {
     const match = text.match(pattern);
     if (match && match[1]) {
       const place = match[1].trim();
@@ -171,102 +287,90 @@ function extract_hotel_data(text: string): NonNullable<HotelOCRResult['data']> {
       if (!place.toLowerCase().includes('villa') && !place.toLowerCase().includes('hotel')) {
         data.place = place;
         data.address = place;
+        const tier: PatternTier = index === 0 ? 'labelled' : 'positional';
+        fields.place = { value: place, tier };
+        fields.address = { value: place, tier };
         break;
       }
     }
   }
 
-  // Extract guest names (from "Who's coming" section)
-  const guest_patterns = [
-    /who'?s\s+coming[\s\n]+([A-Za-z\s,]+(?:Patel|Doe|Smith|etc))/i,
-    /guests?[:\s]+([A-Za-z\s,]+)/i,
-  ];
-  
-  for (const pattern of guest_patterns) {
-    const match = text.match(pattern);
-    if (match && match[1]) {
-      const guests = match[1].trim();
-      // Take first guest name if multiple
-      const first_guest = guests.split(',')[0].trim();
-      if (first_guest) {
-        data.guest_name = first_guest;
-      }
-      break;
-    }
+  // Normalised dates and times; bookings usually omit the year ("Mon, Apr 21"), so it is
+  // inferred from the order's reference date, and check-out from check-in
+  const unparsed: string[] = [];
+  const check_in = set_normalised_date(data, 'check_in_date', unparsed, { reference_date });
+  set_normalised_date(data, 'check_out_date', unparsed, {
+    reference_date: check_in ? new Date(check_in) : reference_date,
+  });
+  set_normalised_time(data, 'check_in_time', unparsed);
+  set_normalised_time(data, 'check_out_time', unparsed);
+  if (unparsed.length > 0) {
+    data.unparsed_fields = unparsed;
+  }
+
+  // Extract guests, guest count and room count
+  const guests = extract_guests(text);
+  if (guests.length > 0) {
+    data.guests = guests;
+    data.guest_name = guests[0];
+    fields.guest_name = { value: data.guest_name, tier: 'labelled' };
+    guests.forEach((guest, index) => {
+      fields[`guests[${index}]`] = { value: guest, tier: 'labelled' };
+    });
+  }
+
+  const guest_count = extract_guest_count(text);
+  if (guest_count !== undefined || guests.length > 0) {
+    data.guest_count = Math.max(guest_count ?? 0, guests.length);
+    fields.guest_count = { value: guest_count, tier: 'labelled' }; // Not scored when only counted from names
+  }
+
+  const room_count = extract_room_count(text);
+  if (room_count !== undefined) {
+    data.room_count = room_count;
+    fields.room_count = { value: room_count, tier: 'labelled' };
   }
 
-  return data;
+  return { data, fields };
 }
 
 /**
- * Process hotel booking OCR
+ * Validate and extract a hotel booking from document text that has already been read
+ * reference_date (the order's travel date, or when it was submitted) resolves dates printed without a year
  */
-export async function process_hotel_ocr(file_url: string): Promise<HotelOCRResult> {
-  try {
-    // Download file from pre-signed URL
-    logger.info(`Processing hotel booking: ${file_url.substring(0, 80)}...`);
-    
-    const response = await fetch(file_url);
-    if (!response.ok) {
-      throw new Error(`Failed to download hotel booking: ${response.status} ${response.statusText}`);
-    }
-    const file_buffer = Buffer.from(await response.arrayBuffer());
-
-    // Initialize Tesseract worker with better config
-    const worker = await createWorker('eng', 1, {
-      logger: (m) => {
-        if (m.status === 'recognizing text') {
-          // Suppress verbose logging
-        }
-      },
-    });
-    
-    try {
-      // Set Tesseract parameters for better OCR accuracy
-      await worker.setParameters({
-        tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 :/-.,\n',
-      });
-      
-      // Perform OCR
-      const { data: { text } } = await worker.recognize(file_buffer);
-      
-      logger.info(`Hotel OCR extracted ${text.length} characters`);
-
-      // Validate if it's a hotel booking
-      if (!validate_hotel_booking(text)) {
-        logger.warn('Extracted text does not appear to be a valid hotel booking');
-        return {
-          status: 'invalid',
-          error: 'Text does not contain hotel booking information',
-          raw_text: text,
-        };
-      }
+export function extract_hotel_result(document: DocumentTextResult, reference_date?: Date): HotelOCRResult {
+  const { text, words, file_type, text_source, page_count, preprocessing } = document;
+  const source_info = { file_type, text_source, page_count, preprocessing };
 
-      // Extract hotel data
-      const extracted_data = extract_hotel_data(text);
-
-      // Ensure we have at least hotel name or confirmation code
-      if (!extracted_data.hotel_name && !extracted_data.confirmation_code) {
-        logger.warn('Could not extract essential hotel information');
-      }
-
-      return {
-        status: 'success',
-        data: extracted_data,
-        raw_text: text,
-      };
-    } finally {
-      await worker.terminate();
-    }
-  } catch (error) {
-    logger.error('Hotel OCR failed:', error);
+  // Validate if it's a hotel booking
+  if (!validate_hotel_booking(text)) {
+    logger.warn('Extracted text does not appear to be a valid hotel booking');
     return {
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 'invalid',
+      ...invalid_document_error(document, 'NOT_A_HOTEL_BOOKING', 'Text does not contain hotel booking information'),
+      raw_text: text,
+      ...source_info,
     };
   }
+
+  // Extract hotel data
+  const { data: extracted_data, fields } = extract_hotel_data(text, reference_date);
+  const confidence_report = build_confidence_report(fields, words);
+
+  // Ensure we have at least hotel name or confirmation code
+  if (!extracted_data.hotel_name && !extracted_data.confirmation_code) {
+    logger.warn('Could not extract essential hotel information');
+  }
+
+  return {
+    status: 'success',
+    data: extracted_data,
+    raw_text: text,
+    ...source_info,
+    ...confidence_report,
+  };
 }
 
 export default {
-  process_hotel_ocr,
+  extract_hotel_result,
 };
@@ -0,0 +1,245 @@
+import logger from '../utils/logger.js';
+import { invalid_document_error, type DocumentTextResult, type TextSource } from './document-text.service.js';
+import { type ResultError } from '../utils/errors.js';
+import { DATE_TEXT, set_normalised_date } from '../utils/date-time.js';
+import { match_field, parse_name_list, unique_names } from '../utils/text-fields.js';
+import { build_confidence_report, type FieldLocation, type PatternTier } from './confidence.service.js';
+
+export interface InsuranceOCRResult extends ResultError {
+  status: 'success' | 'error' | 'invalid';
+  data?: {
+    policy_number?: string;
+    insurer?: string;
+    plan_name?: string;
+    coverage_start?: string;
+    coverage_start_iso?: string; // YYYY-MM-DD
+    coverage_end?: string;
+    coverage_end_iso?: string;
+    insured_name?: string; // First insured person, kept for single-traveller consumers
+    insured_names?: string[];
+    sum_insured?: string;
+    unparsed_fields?: string[]; // Date fields that could not be normalised
+    [key: string]: any;
+  };
+  raw_text?: string;
+  file_type?: string;
+  text_source?: TextSource;
+  page_count?: number;
+  preprocessing?: string[];
+  confidence?: Record<string, number>; // Field path -> 0-1, e.g. { "policy_number": 1, "insured_names[1]": 0.82 }
+  locations?: Record<string, FieldLocation>; // Field path -> page and bounding box of its source text
+  needs_review?: boolean;
+  low_confidence_fields?: string[];
+  reclassified_from?: string; // Declared document_type when the classifier routed the document here
+}
+
+// Field path -> value and the pattern tier that produced it, for confidence scoring
+type ConfidenceFields = Record<string, { value: unknown; tier: PatternTier }>;
+
+// Words that mark a travel insurance certificate; also used by the document classifier
+export const INSURANCE_KEYWORDS = [
+  'insurance',
+  'policy',
+  'insured',
+  'insurer',
+  'coverage',
+  'premium',
+  'sum insured',
+  'claim',
+  'period of insurance',
+  'nominee',
+  'assistance',
+  'certificate of insurance',
+];
+
+/**
+ * Validate if extracted text is an insurance certificate
+ */
+function validate_insurance(text: string): boolean {
+  const lower_text = text.toLowerCase();
+
+  const found_keywords = INSURANCE_KEYWORDS.filter(keyword => lower_text.includes(keyword));
+
+  // Need at least 3 insurance-related keywords to be considered valid
+  return found_keywords.length >= 3;
+}
+
+// Lines that introduce insured persons, e.g. "Name of Insured: John Doe", "Insured Persons", "Traveller Name(s)"
+const INSURED_HEADER_PATTERN = /^\s*(name\s+of\s+(?:the\s+)?insured(?:\s+persons?)?|insured\s+(?:persons?|names?|members?|travell?ers?)|insured|travell?er'?s?\s+names?|travell?ers?|name\s+of\s+travell?er)\s*[:\-]?\s*(.*)$/i;
+
+// Words that end a name when OCR runs a row into the next column
+const INSURED_STOP_WORDS = new Set([
+  'DOB', 'DATE', 'AGE', 'PASSPORT', 'GENDER', 'MALE', 'FEMALE', 'RELATIONSHIP', 'SELF', 'SPOUSE', 'CHILD',
+  'NOMINEE', 'POLICY', 'PREMIUM', 'PLAN', 'SUM', 'YEARS', 'YRS',
+]);
+
+/**
+ * Extract every insured person listed on the certificate
+ * Names come from the rest of a header line and, for list sections such as "Insured Persons",
+ * from the numbered or plain lines directly below it
+ */
+function extract_insured_names(text: string): string[] {
+  const insured: string[] = [];
+  const lines = text.split('\n');
+
+  lines.forEach((line, index) => {
+    const header = line.match(INSURED_HEADER_PATTERN);
+    if (!header) return;
+
+    insured.push(...parse_name_list(header[2], INSURED_STOP_WORDS));
+    if (header[2].trim()) return;
+
+    for (const next of lines.slice(index + 1, index + 9)) {
+      if (INSURED_HEADER_PATTERN.test(next)) break;
+      const names = parse_name_list(next, INSURED_STOP_WORDS);
+      if (names.length === 0) break;
+      insured.push(...names);
+    }
+  });
+
+  return unique_names(insured);
+}
+
+/**
+ * Extract insurance information from OCR text
+ * Also returns each field's value and pattern tier for confidence scoring
+ */
+function extract_insurance_data(
+  text: string,
+  reference_date?: Date
+): { data: NonNullable<InsuranceOCRResult['data']>; fields: ConfidenceFields } {
+  const data: NonNullable<InsuranceOCRResult['data']> = {};
+  const fields: ConfidenceFields = {};
+
+  // Policy number: "Policy No: 2311/12345678/00/000", "Certificate Number TRV-123456"
+  const policy_number = match_field(text, [
+    [/policy\s*(?:no\.?|number|#)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]{4,30})/i, 'labelled'],
+    [/certificate\s*(?:no\.?|number|#)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]{4,30})/i, 'labelled'],
+  ]);
+  if (policy_number) {
+    data.policy_number = policy_number.value.toUpperCase();
+    fields.policy_number = { value: data.policy_number, tier: policy_number.tier };
+  }
+
+  // Insurer: "Insurer: Tata AIG General Insurance Company Limited", or a company name on its own
+  const insurer = match_field(text, [
+    [/(?:insurer|insurance\s+company|underwritten\s+by|insured\s+by)\s*[:\-]\s*([A-Za-z][A-Za-z0-9&.,' \-]{2,79}?)\s*$/im, 'labelled'],
+    [/([A-Z][A-Za-z0-9&.' \-]*\b(?:Insurance|Assurance)\s+(?:Company|Co\.?|Corporation|Ltd\.?|Limited|plc|Inc\.?|AG|SE)\b\.?(?:\s+(?:Ltd\.?|Limited))?)/, 'structured'],
+  ]);
+  if (insurer) {
+    data.insurer = insurer.value.replace(/\s+/g, ' ');
+    fields.insurer = { value: data.insurer, tier: insurer.tier };
+  }
+
+  // Plan: "Plan Name: Travel Guard Gold", "Plan: Schengen Basic"
+  const plan_name = match_field(text, [
+    [/(?:plan\s+name|plan|product\s+name|product)\s*[:\-]\s*([A-Za-z][A-Za-z0-9&.' \-]{1,59}?)\s*$/im, 'labelled'],
+  ]);
+  if (plan_name) {
+    data.plan_name = plan_name.value.replace(/\s+/g, ' ');
+    fields.plan_name = { value: data.plan_name, tier: plan_name.tier };
+  }
+
+  // Coverage: a single "Period of Insurance: 21/04/2025 to 30/04/2025" line, or separate start/end labels
+  const coverage_range = text.match(
+    new RegExp(
+      String.raw`(?:period\s+of\s+(?:insurance|cover)|coverage\s+period|policy\s+period|travel\s+period|period)\s*[:\-]?\s*(?:from\s+)?(${DATE_TEXT})\s*(?:to|till|until|-|–)\s*(${DATE_TEXT})`,
+      'i'
+    )
+  );
+  if (coverage_range) {
+    data.coverage_start = coverage_range[1].trim();
+    data.coverage_end = coverage_range[2].trim();
+    fields.coverage_start = { value: data.coverage_start, tier: 'labelled' };
+    fields.coverage_end = { value: data.coverage_end, tier: 'labelled' };
+  } else {
+    const coverage_start = match_field(text, [
+      [new RegExp(String.raw`(?:start\s+date|cover\s+starts?|commencement\s+date|effective\s+(?:date|from)|valid\s+from|departure\s+date)\s*[:\-]?\s*(${DATE_TEXT})`, 'i'), 'labelled'],
+    ]);
+    if (coverage_start) {
+      data.coverage_start = coverage_start.value;
+      fields.coverage_start = { value: data.coverage_start, tier: coverage_start.tier };
+    }
+
+    const coverage_end = match_field(text, [
+      [new RegExp(String.raw`(?:end\s+date|cover\s+ends?|expiry\s+date|valid\s+(?:until|till|to)|return\s+date)\s*[:\-]?\s*(${DATE_TEXT})`, 'i'), 'labelled'],
+    ]);
+    if (coverage_end) {
+      data.coverage_end = coverage_end.value;
+      fields.coverage_end = { value: data.coverage_end, tier: coverage_end.tier };
+    }
+  }
+
+  // Sum insured: "Sum Insured: USD 50,000"
+  const sum_insured = match_field(text, [
+    [/sum\s+insured\s*[:\-]?\s*((?:[A-Z]{3}|\$|€|£|₹|Rs\.?)\s*[\d,]+(?:\.\d{2})?)/i, 'labelled'],
+  ]);
+  if (sum_insured) {
+    data.sum_insured = sum_insured.value.replace(/\s+/g, ' ');
+    fields.sum_insured = { value: data.sum_insured, tier: sum_insured.tier };
+  }
+
+  // Insured persons
+  const insured_names = extract_insured_names(text);
+  if (insured_names.length > 0) {
+    data.insured_names = insured_names;
+    data.insured_name = insured_names[0];
+    fields.insured_name = { value: data.insured_name, tier: 'labelled' };
+    insured_names.forEach((name, index) => {
+      fields[`insured_names[${index}]`] = { value: name, tier: 'labelled' };
+    });
+  }
+
+  // Normalised dates; the end of cover is read relative to its start
+  const unparsed: string[] = [];
+  const start = set_normalised_date(data, 'coverage_start', unparsed, { reference_date });
+  set_normalised_date(data, 'coverage_end', unparsed, {
+    reference_date: start ? new Date(start) : reference_date,
+  });
+  if (unparsed.length > 0) {
+    data.unparsed_fields = unparsed;
+  }
+
+  return { data, fields };
+}
+
+/**
+ * Validate and extract an insurance certificate from document text that has already been read
+ * reference_date (the order's travel date, or when it was submitted) resolves dates printed without a year
+ */
+export function extract_insurance_result(document: DocumentTextResult, reference_date?: Date): InsuranceOCRResult {
+  const { text, words, file_type, text_source, page_count, preprocessing } = document;
+  const source_info = { file_type, text_source, page_count, preprocessing };
+
+  // Validate if it's an insurance certificate
+  if (!validate_insurance(text)) {
+    logger.warn('Extracted text does not appear to be a valid insurance certificate');
+    return {
+      status: 'invalid',
+      ...invalid_document_error(document, 'NOT_AN_INSURANCE_CERTIFICATE', 'Text does not contain travel insurance information'),
+      raw_text: text,
+      ...source_info,
+    };
+  }
+
+  // Extract insurance data
+  const { data: extracted_data, fields } = extract_insurance_data(text, reference_date);
+  const confidence_report = build_confidence_report(fields, words);
+
+  // Ensure we have at least the policy number or insurer
+  if (!extracted_data.policy_number && !extracted_data.insurer) {
+    logger.warn('Could not extract essential insurance information');
+  }
+
+  return {
+    status: 'success',
+    data: extracted_data,
+    raw_text: text,
+    ...source_info,
+    ...confidence_report,
+  };
+}
+
+export default {
+  extract_insurance_result,
+};
@@ -0,0 +1,332 @@
+import { get_redis_client } from '../config/redis.js';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+import type { MappingDecision } from './mapping.service.js';
+import { result_error, type ErrorCode } from '../utils/errors.js';
+
+// incomplete: a passport with one page missing that could not be read from the other
+// needs_assignment: extracted, but a name on it matched no traveller or several equally well
+export type JobState = 'queued' | 'processing' | 'completed' | 'failed' | 'invalid' | 'incomplete' | 'needs_assignment';
+
+export interface DocumentJob {
+  order_id: string;
+  document_id: string;
+  traveller_id: string;
+  traveller_name: string;
+  document_type: string;
+  processed_as?: string; // Extractor the document went to, when the classifier or a reprocess request changed its type
+  state: JobState;
+  attempts: number;
+  mapped_traveller_id?: string;
+  mapped_traveller_ids?: string[]; // Tickets listing several passengers map to several travellers
+  mapping?: MappingDecision[]; // How each name on the document was mapped
+  result?: any;
+  error?: string;
+  error_code?: ErrorCode;
+  retryable?: boolean; // Whether submitting the document again may succeed
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface OrderJob {
+  order_id: string;
+  state: JobState;
+  attempts: number;
+  document_count: number;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  completed_at?: string;
+  documents: DocumentJob[];
+}
+
+interface JobDocumentInput {
+  traveller_id: string;
+  traveller_name: string;
+  document_id: string;
+  document_type: string;
+}
+
+const TERMINAL_STATES: JobState[] = ['completed', 'failed', 'invalid', 'incomplete', 'needs_assignment'];
+
+function order_key(order_id: string): string {
+  return `${env.jobs.key_prefix}:${order_id}`;
+}
+
+function documents_key(order_id: string): string {
+  return `${env.jobs.key_prefix}:${order_id}:documents`;
+}
+
+/**
+ * Map an OCR service result status to a job state
+ */
+export function job_state_from_result(status: 'success' | 'error' | 'invalid'): JobState {
+  if (status === 'success') return 'completed';
+  if (status === 'invalid') return 'invalid';
+  return 'failed';
+}
+
+async function read_order(order_id: string): Promise<Omit<OrderJob, 'documents'> | null> {
+  const raw = await get_redis_client().get(order_key(order_id));
+  return raw ? JSON.parse(raw) : null;
+}
+
+async function read_document(order_id: string, document_id: string): Promise<DocumentJob | null> {
+  const raw = await get_redis_client().hget(documents_key(order_id), document_id);
+  return raw ? JSON.parse(raw) : null;
+}
+
+async function write_order(order: Omit<OrderJob, 'documents'>): Promise<void> {
+  await get_redis_client().set(order_key(order.order_id), JSON.stringify(order), 'EX', env.jobs.ttl_seconds);
+}
+
+async function write_document(job: DocumentJob): Promise<void> {
+  const client = get_redis_client();
+  const key = documents_key(job.order_id);
+  await client.hset(key, job.document_id, JSON.stringify(job));
+  await client.expire(key, env.jobs.ttl_seconds);
+}
+
+/**
+ * Record an order and all of its documents as queued jobs
+ * Re-submitting an order resets state but keeps creation time and attempt history; Redis errors are thrown
+ */
+export async function create_order_job(order_id: string, documents: JobDocumentInput[]): Promise<void> {
+  const now = new Date().toISOString();
+  const existing = await read_order(order_id);
+
+  await write_order({
+    order_id,
+    state: 'queued',
+    attempts: existing?.attempts || 0,
+    document_count: documents.length,
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  });
+
+  for (const doc of documents) {
+    const existing_doc = await read_document(order_id, doc.document_id);
+    await write_document({
+      order_id,
+      document_id: doc.document_id,
+      traveller_id: doc.traveller_id,
+      traveller_name: doc.traveller_name,
+      document_type: doc.document_type,
+      state: 'queued',
+      attempts: existing_doc?.attempts || 0,
+      created_at: existing_doc?.created_at || now,
+      updated_at: now,
+    });
+  }
+
+  // Drop documents left over from a previous submission of this order
+  const document_ids = new Set(documents.map(d => d.document_id));
+  const stored_ids: string[] = await get_redis_client().hkeys(documents_key(order_id));
+  const stale_ids = stored_ids.filter(id => !document_ids.has(id));
+  if (stale_ids.length > 0) {
+    await get_redis_client().hdel(documents_key(order_id), ...stale_ids);
+  }
+}
+
+/**
+ * Mark an order as being processed and count the attempt
+ */
+export async function start_order_job(order_id: string): Promise<void> {
+  try {
+    const order = await read_order(order_id);
+    if (!order) {
+      logger.warn(`No job found for order ${order_id}`);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    await write_order({
+      ...order,
+      state: 'processing',
+      attempts: order.attempts + 1,
+      started_at: now,
+      updated_at: now,
+      completed_at: undefined,
+    });
+  } catch (error) {
+    logger.error(`Failed to start job for order ${order_id}:`, error);
+  }
+}
+
+/**
+ * Update state of a single document job
+ * Moving to `processing` counts an attempt; terminal states record completion time
+ */
+export async function update_document_job(
+  order_id: string,
+  document_id: string,
+  update: {
+    state: JobState;
+    result?: any;
+    error?: string;
+    error_code?: ErrorCode;
+    retryable?: boolean;
+    mapped_traveller_id?: string;
+    mapped_traveller_ids?: string[];
+    mapping?: MappingDecision[];
+    processed_as?: string;
+  }
+): Promise<void> {
+  try {
+    const job = await read_document(order_id, document_id);
+    if (!job) {
+      logger.warn(`No job found for document ${document_id} in order ${order_id}`);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const next: DocumentJob = {
+      ...job,
+      ...update,
+      updated_at: now,
+    };
+
+    if (update.state === 'processing') {
+      next.attempts = job.attempts + 1;
+      next.started_at = now;
+      next.completed_at = undefined;
+      next.result = undefined;
+      next.error = undefined;
+      next.error_code = undefined;
+      next.retryable = undefined;
+    } else if (TERMINAL_STATES.includes(update.state)) {
+      next.completed_at = now;
+    }
+
+    await write_document(next);
+  } catch (error) {
+    logger.error(`Failed to update job for document ${document_id}:`, error);
+  }
+}
+
+/**
+ * Queue a single document of an existing order for reprocessing
+ * Clears its previous result and mapping, and reopens the order; returns null if the order or document is unknown
+ */
+export async function requeue_document_job(order_id: string, document_id: string): Promise<DocumentJob | null> {
+  const order = await read_order(order_id);
+  const job = await read_document(order_id, document_id);
+  if (!order || !job) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const next: DocumentJob = {
+    ...job,
+    state: 'queued',
+    updated_at: now,
+    processed_as: undefined,
+    mapped_traveller_id: undefined,
+    mapped_traveller_ids: undefined,
+    mapping: undefined,
+    result: undefined,
+    error: undefined,
+    error_code: undefined,
+    retryable: undefined,
+    completed_at: undefined,
+  };
+  await write_document(next);
+  await write_order({ ...order, state: 'queued', updated_at: now, completed_at: undefined });
+
+  return next;
+}
+
+/**
+ * Record a manual re-mapping of an extracted document
+ */
+export async function assign_document_job(
+  order_id: string,
+  document_id: string,
+  update: { state: JobState; mapped_traveller_ids: string[]; mapping: MappingDecision[] }
+): Promise<DocumentJob | null> {
+  const job = await read_document(order_id, document_id);
+  if (!job) {
+    return null;
+  }
+
+  const next: DocumentJob = {
+    ...job,
+    state: update.state,
+    mapped_traveller_id: update.mapped_traveller_ids[0],
+    mapped_traveller_ids: update.mapped_traveller_ids,
+    mapping: update.mapping,
+    updated_at: new Date().toISOString(),
+  };
+  await write_document(next);
+
+  return next;
+}
+
+/**
+ * Close out an order job once processing has finished (or was abandoned)
+ * Documents that were never picked up are marked failed with `error_code` so nothing stays queued forever
+ */
+export async function finish_order_job(
+  order_id: string,
+  error_message?: string,
+  error_code: ErrorCode = 'INTERNAL_SERVER_ERROR'
+): Promise<void> {
+  try {
+    const order = await get_order_job(order_id);
+    if (!order) {
+      logger.warn(`No job found for order ${order_id}`);
+      return;
+    }
+
+    for (const doc of order.documents) {
+      if (!TERMINAL_STATES.includes(doc.state)) {
+        await update_document_job(order_id, doc.document_id, {
+          state: 'failed',
+          ...result_error(error_code, error_message || `Document was not processed (document_type: ${doc.document_type})`),
+        });
+        doc.state = 'failed';
+      }
+    }
+
+    const now = new Date().toISOString();
+    const { documents, ...meta } = order;
+    await write_order({
+      ...meta,
+      state: documents.some(d => d.state === 'failed' || d.state === 'incomplete') ? 'failed' : 'completed',
+      updated_at: now,
+      completed_at: now,
+    });
+  } catch (error) {
+    logger.error(`Failed to finish job for order ${order_id}:`, error);
+  }
+}
+
+/**
+ * Get an order job with all of its document jobs
+ */
+export async function get_order_job(order_id: string): Promise<OrderJob | null> {
+  const order = await read_order(order_id);
+  if (!order) {
+    return null;
+  }
+
+  const raw_documents: Record<string, string> = await get_redis_client().hgetall(documents_key(order_id));
+  const documents = Object.values(raw_documents)
+    .map(raw => JSON.parse(raw) as DocumentJob)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return { ...order, documents };
+}
+
+export default {
+  create_order_job,
+  start_order_job,
+  update_document_job,
+  requeue_document_job,
+  assign_document_job,
+  finish_order_job,
+  get_order_job,
+  job_state_from_result,
+};
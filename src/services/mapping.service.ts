@@ -1,34 +1,200 @@
 import logger from '../utils/logger.js';
+import { env } from '../config/env.js';
 
 export interface TravellerInfo {
   traveller_id: string;
   traveller_name: string;
 }
 
+export interface NameCandidate {
+  traveller_id: string;
+  traveller_name: string;
+  score: number; // 0-1 name similarity
+}
+
+// How a name on a document was mapped to the order's travellers
+export interface MappingDecision {
+  status: 'matched' | 'ambiguous' | 'unmatched';
+  extracted_name?: string; // Absent when the document carries no name
+  traveller_id?: string; // Matched only
+  score?: number; // Matched only: the winning score
+  candidates: NameCandidate[]; // Ranked best first: travellers at the threshold, or for unmatched the closest below it
+  manual?: boolean; // Assigned by the main backend through POST /process/documents/:document_id/assign
+}
+
+// Minimum similarity for two names to be the same person
+export const NAME_MATCH_THRESHOLD = env.mapping.name_match_threshold;
+
+// Honorifics and airline passenger-type suffixes ("PATEL/MAHENDRA MR", "KUMAR/ANAYA MSTR CHD")
+const NAME_TITLES = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'mstr', 'master', 'mx', 'dr', 'prof', 'sir', 'madam',
+  'shri', 'sri', 'smt', 'kumari', 'km', 'sheikh', 'shaikh', 'chd', 'inf', 'adt',
+]);
+
+// Arabic name particles, ignored so "Al Hashimi", "Al-Hashimi" and "Hashimi" compare equal
+const NAME_PARTICLES = new Set(['al', 'el', 'bin', 'bint', 'ibn']);
+
+// Scores for a pair of name tokens that are not identical
+const INITIAL_SCORE = 0.7; // "M" against "Mahendra"
+const PHONETIC_SCORE = 0.9; // "Mohammed" against "Muhammad"
+const JOINED_SCORE = 0.95; // "Mahendrakumar Patel" against "Mahendra Kumar Patel"
+
+// One edit in a token this short is as likely a different name as an OCR slip ("Sana", "Sara")
+const SHORT_TOKEN_LENGTH = 4;
+
+/**
+ * Split a name into comparable tokens
+ * Airline "SURNAME/GIVEN" order becomes given names then surname; titles, particles and punctuation are dropped
+ */
+export function parse_name(name: string): string[] {
+  let ordered = name.toLowerCase();
+  const slash = ordered.match(/^\s*([^\/]+?)\s*\/\s*(.+)$/);
+  if (slash) {
+    ordered = `${slash[2]} ${slash[1]}`;
+  }
+
+  return ordered
+    .replace(/\b(?:al|el)-/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !NAME_TITLES.has(token) && !NAME_PARTICLES.has(token));
+}
+
+/**
+ * Sound-alike key for transliterated names, so Indian and Arabic spelling variants
+ * (Mohammed/Muhammad, Srinivas/Shrinivas, Zaid/Zayed, Bhavesh/Bavesh) share a key
+ * Keeps the first letter (any vowel as "a"), folds aspirated and variant consonants, then drops vowels and repeats
+ */
+function phonetic_key(token: string): string {
+  let key = token
+    .replace(/ph/g, 'f')
+    .replace(/([bdgkt])h/g, '$1')
+    .replace(/sh/g, 's')
+    .replace(/ch/g, 'c')
+    .replace(/ck|q/g, 'k')
+    .replace(/v/g, 'w')
+    .replace(/z/g, 'j')
+    .replace(/x/g, 'ks');
+
+  const first = /^[aeiou]/.test(key) ? 'a' : key[0];
+  key = key.slice(1).replace(/[aeiouyhw]/g, '');
+  return (first + key).replace(/(.)\1+/g, '$1');
+}
+
+function edit_distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity (0-1) of two name tokens
+ * Initials match any token with that first letter; OCR slips are allowed one edit per four letters in
+ * tokens longer than SHORT_TOKEN_LENGTH, while shorter ones must be equal or sound alike
+ */
+function token_similarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  if (a.length === 1 || b.length === 1) {
+    return a[0] === b[0] ? INITIAL_SCORE : 0;
+  }
+
+  const max_length = Math.max(a.length, b.length);
+  const distance = edit_distance(a, b);
+  const edit_score = max_length > SHORT_TOKEN_LENGTH && distance <= Math.floor(max_length / 4) ? 1 - distance / max_length : 0;
+
+  // Short keys collide easily ("John", "Jane"), so sound-alikes must also be spelled roughly alike
+  const key = phonetic_key(a);
+  const sounds_alike = key.length >= 2 && key === phonetic_key(b) && distance <= max_length / 2;
+  const phonetic_score = sounds_alike ? PHONETIC_SCORE : 0;
+
+  return Math.max(edit_score, phonetic_score);
+}
+
 /**
- * Fuzzy match names (simple implementation)
+ * Similarity (0-1) of two person names, in any order
+ * Tokens are paired best-first, each used once; the score is the paired similarity over the tokens of both
+ * names (Dice), so a missing middle name costs less than a wrong first name
  */
-function fuzzy_match_name(name1: string, name2: string): number {
-  const normalize = (name: string) => name.toLowerCase().trim().replace(/\s+/g, ' ');
-  const n1 = normalize(name1);
-  const n2 = normalize(name2);
-
-  // Exact match
-  if (n1 === n2) return 1.0;
-
-  // Check if one contains the other
-  if (n1.includes(n2) || n2.includes(n1)) return 0.8;
-
-  // Split into words and check common words
-  const words1 = n1.split(' ');
-  const words2 = n2.split(' ');
-  
-  const common_words = words1.filter(w => words2.includes(w));
-  const total_words = Math.max(words1.length, words2.length);
-  
-  if (total_words === 0) return 0;
-  
-  return common_words.length / total_words;
+export function fuzzy_match_name(name1: string, name2: string): number {
+  const tokens1 = parse_name(name1);
+  const tokens2 = parse_name(name2);
+  if (tokens1.length === 0 || tokens2.length === 0) return 0;
+
+  const sorted1 = [...tokens1].sort().join(' ');
+  const sorted2 = [...tokens2].sort().join(' ');
+  if (sorted1 === sorted2) return 1;
+
+  // Given names written together or apart
+  if (tokens1.join('') === tokens2.join('')) return JOINED_SCORE;
+
+  const pairs: Array<{ i: number; j: number; score: number }> = [];
+  tokens1.forEach((a, i) => {
+    tokens2.forEach((b, j) => {
+      const score = token_similarity(a, b);
+      if (score > 0) pairs.push({ i, j, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const used1 = new Set<number>();
+  const used2 = new Set<number>();
+  let total = 0;
+  for (const pair of pairs) {
+    if (used1.has(pair.i) || used2.has(pair.j)) continue;
+    used1.add(pair.i);
+    used2.add(pair.j);
+    total += pair.score;
+  }
+
+  return Math.round((2 * total / (tokens1.length + tokens2.length)) * 100) / 100;
+}
+
+// Most unmatched-name candidates to report as hints
+const MAX_HINT_CANDIDATES = 3;
+
+/**
+ * Travellers ranked by similarity to a name, best first; travellers scoring 0 are left out
+ */
+function rank_travellers(extracted_name: string, travellers: TravellerInfo[]): NameCandidate[] {
+  return travellers
+    .map(traveller => ({
+      traveller_id: traveller.traveller_id,
+      traveller_name: traveller.traveller_name,
+      score: fuzzy_match_name(extracted_name, traveller.traveller_name),
+    }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Decide which traveller a name belongs to from its ranked candidates
+ * Matched needs a candidate at NAME_MATCH_THRESHOLD with no other within NAME_MATCH_AMBIGUITY_MARGIN of it
+ */
+function decide(extracted_name: string | undefined, ranked: NameCandidate[]): MappingDecision {
+  const above = ranked.filter(candidate => candidate.score >= NAME_MATCH_THRESHOLD);
+
+  if (above.length === 0) {
+    return { status: 'unmatched', extracted_name, candidates: ranked.slice(0, MAX_HINT_CANDIDATES) };
+  }
+
+  const [best, ...rest] = above;
+  const rivals = rest.filter(candidate => best.score - candidate.score <= env.mapping.ambiguity_margin);
+  if (rivals.length > 0) {
+    return { status: 'ambiguous', extracted_name, candidates: [best, ...rivals] };
+  }
+
+  return { status: 'matched', extracted_name, traveller_id: best.traveller_id, score: best.score, candidates: above };
 }
 
 /**
@@ -37,37 +203,75 @@ function fuzzy_match_name(name1: string, name2: string): number {
 export function map_ticket_to_passenger(
   extracted_name: string | undefined,
   travellers: TravellerInfo[]
-): string | null {
-  if (!extracted_name || travellers.length === 0) {
-    return null;
+): MappingDecision {
+  const ranked = extracted_name ? rank_travellers(extracted_name, unique_travellers(travellers)) : [];
+  const decision = decide(extracted_name, ranked);
+  log_decision(decision);
+  return decision;
+}
+
+/**
+ * Map a ticket listing several passengers to travellers, one decision per name in ticket order
+ * Each traveller is matched at most once: names are settled best score first, and a traveller
+ * taken by one name is no longer a candidate for the others
+ */
+export function map_ticket_to_passengers(
+  extracted_names: string[],
+  travellers: TravellerInfo[]
+): MappingDecision[] {
+  if (extracted_names.length === 0) {
+    const decision: MappingDecision = { status: 'unmatched', candidates: [] };
+    log_decision(decision);
+    return [decision];
   }
 
-  let best_match: { traveller_id: string; score: number } | null = null;
-  const threshold = 0.6; // Minimum similarity threshold
-
-  for (const traveller of travellers) {
-    const score = fuzzy_match_name(extracted_name, traveller.traveller_name);
-    
-    if (score >= threshold && (!best_match || score > best_match.score)) {
-      best_match = {
-        traveller_id: traveller.traveller_id,
-        score,
-      };
+  const candidates = unique_travellers(travellers);
+  const ranked = new Map(extracted_names.map(name => [name, rank_travellers(name, candidates)]));
+  const decisions = new Map<string, MappingDecision>();
+  const taken = new Set<string>();
+
+  while (decisions.size < ranked.size) {
+    // The undecided name with the strongest remaining candidate goes next
+    const undecided = [...ranked.entries()]
+      .filter(([name]) => !decisions.has(name))
+      .map(([name, list]) => ({ name, list: list.filter(candidate => !taken.has(candidate.traveller_id)) }))
+      .sort((a, b) => (b.list[0]?.score ?? 0) - (a.list[0]?.score ?? 0));
+
+    const { name, list } = undecided[0];
+    const decision = decide(name, list);
+    decisions.set(name, decision);
+    if (decision.traveller_id) {
+      taken.add(decision.traveller_id);
     }
   }
 
-  if (best_match) {
-    logger.info(
-      `Mapped ticket (${extracted_name}) to passenger with score: ${best_match.score.toFixed(2)}`
-    );
-    return best_match.traveller_id;
+  const results = extracted_names.map(name => decisions.get(name)!);
+  for (const decision of results) {
+    log_decision(decision);
   }
+  return results;
+}
+
+// Order documents repeat travellers; score each traveller once
+function unique_travellers(travellers: TravellerInfo[]): TravellerInfo[] {
+  return [...new Map(travellers.map(t => [t.traveller_id, t])).values()];
+}
 
-  logger.warn(`Could not map ticket (${extracted_name}) to any passenger`);
-  return null;
+function log_decision(decision: MappingDecision): void {
+  const name = decision.extracted_name || '(no name)';
+  if (decision.status === 'matched') {
+    logger.info(`Mapped ticket (${name}) to passenger with score: ${decision.score!.toFixed(2)}`);
+  } else if (decision.status === 'ambiguous') {
+    const candidates = decision.candidates.map(c => `${c.traveller_name} ${c.score.toFixed(2)}`).join(', ');
+    logger.warn(`Ticket name (${name}) matches several travellers: ${candidates}`);
+  } else {
+    logger.warn(`Could not map ticket (${name}) to any passenger`);
+  }
 }
 
 export default {
+  fuzzy_match_name,
   map_ticket_to_passenger,
+  map_ticket_to_passengers,
 };
 
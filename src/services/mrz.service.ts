@@ -0,0 +1,349 @@
+import logger from '../utils/logger.js';
+import type { Page } from 'tesseract.js';
+import { recognize_image } from './tesseract.service.js';
+import { build_confidence_report, type PatternTier, type TextWord } from './confidence.service.js';
+import { to_source_bbox, type ImageGeometry } from './preprocess.service.js';
+import type { PassportOCRResult } from './passport.service.js';
+import { result_error, to_result_error } from '../utils/errors.js';
+
+const TD3_LINE_LENGTH = 44;
+
+export interface MRZCheckDigits {
+  passport_number: boolean;
+  date_of_birth: boolean;
+  expiry_date: boolean;
+  personal_number: boolean;
+  composite: boolean;
+}
+
+export interface MRZParseResult {
+  valid: boolean;
+  check_digits: MRZCheckDigits;
+  lines: [string, string];
+  fields: {
+    document_code: string;
+    issuing_country: string;
+    surname: string;
+    given_names: string;
+    passport_number: string;
+    nationality: string;
+    date_of_birth: string;
+    gender: string;
+    expiry_date: string;
+    personal_number: string;
+  };
+}
+
+// OCR commonly confuses these letters with digits in numeric MRZ fields
+const LETTER_TO_DIGIT: Record<string, string> = {
+  O: '0', Q: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', B: '8',
+};
+
+// ...and these digits with letters in alphabetic fields (country codes)
+const DIGIT_TO_LETTER: Record<string, string> = {
+  '0': 'O', '1': 'I', '2': 'Z', '5': 'S', '6': 'G', '8': 'B',
+};
+
+/**
+ * Compute ICAO 9303 check digit (weights 7, 3, 1; '<' counts as 0)
+ */
+export function compute_check_digit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    let char_value = 0;
+    if (char >= '0' && char <= '9') {
+      char_value = char.charCodeAt(0) - 48;
+    } else if (char >= 'A' && char <= 'Z') {
+      char_value = char.charCodeAt(0) - 55;
+    }
+    sum += char_value * weights[i % 3];
+  }
+
+  return sum % 10;
+}
+
+function verify_check_digit(value: string, check_char: string): boolean {
+  // An empty optional field may carry '<' as its check digit
+  if (check_char === '<') {
+    return /^<*$/.test(value);
+  }
+  return String(compute_check_digit(value)) === check_char;
+}
+
+function to_digits(value: string): string {
+  return value.replace(/[A-Z]/g, char => LETTER_TO_DIGIT[char] ?? char);
+}
+
+function to_letters(value: string): string {
+  return value.replace(/[0-9]/g, char => DIGIT_TO_LETTER[char] ?? char);
+}
+
+/**
+ * Convert MRZ YYMMDD date to ISO (YYYY-MM-DD)
+ * Birth dates in the future are pushed back a century; expiry dates are always 20xx
+ */
+function mrz_date_to_iso(value: string, kind: 'birth' | 'expiry'): string {
+  if (!/^\d{6}$/.test(value)) return '';
+
+  const yy = Number(value.substring(0, 2));
+  const month = value.substring(2, 4);
+  const day = value.substring(4, 6);
+
+  let year = 2000 + yy;
+  if (kind === 'birth' && year > new Date().getFullYear()) {
+    year -= 100;
+  }
+
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Normalise a raw OCR line into MRZ alphabet (A-Z, 0-9, '<')
+ */
+function normalise_mrz_line(line: string): string {
+  return line
+    .toUpperCase()
+    .replace(/\s+/g, '')
+    .replace(/[«‹]/g, '<')
+    .replace(/[^A-Z0-9<]/g, '');
+}
+
+/**
+ * Locate the two TD3 MRZ lines in OCR text
+ */
+export function find_td3_lines(text: string): [string, string] | null {
+  const lines = text
+    .split('\n')
+    .map(normalise_mrz_line)
+    .filter(line => line.length >= TD3_LINE_LENGTH - 4);
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (lines[i].startsWith('P') && lines[i].includes('<<')) {
+      const line1 = lines[i].padEnd(TD3_LINE_LENGTH, '<').substring(0, TD3_LINE_LENGTH);
+      const line2 = lines[i + 1].padEnd(TD3_LINE_LENGTH, '<').substring(0, TD3_LINE_LENGTH);
+      return [line1, line2];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse ICAO 9303 TD3 (passport) two-line MRZ and validate check digits
+ */
+export function parse_td3_mrz(line1: string, line2: string): MRZParseResult {
+  const document_code = line1.substring(0, 2).replace(/</g, '');
+  const issuing_country = to_letters(line1.substring(2, 5)).replace(/</g, '');
+  const [surname_raw = '', given_raw = ''] = line1.substring(5).split('<<');
+  const surname = surname_raw.replace(/</g, ' ').trim();
+  const given_names = given_raw.replace(/</g, ' ').replace(/\s+/g, ' ').trim();
+
+  const passport_number_field = line2.substring(0, 9);
+  const passport_number_check = to_digits(line2.substring(9, 10));
+  const nationality = to_letters(line2.substring(10, 13)).replace(/</g, '');
+  const dob_field = to_digits(line2.substring(13, 19));
+  const dob_check = to_digits(line2.substring(19, 20));
+  const gender = line2.substring(20, 21);
+  const expiry_field = to_digits(line2.substring(21, 27));
+  const expiry_check = to_digits(line2.substring(27, 28));
+  const personal_number_field = line2.substring(28, 42);
+  const personal_number_check = line2.substring(42, 43) === '<' ? '<' : to_digits(line2.substring(42, 43));
+  const composite_check = to_digits(line2.substring(43, 44));
+
+  const composite_value =
+    passport_number_field + passport_number_check +
+    dob_field + dob_check +
+    expiry_field + expiry_check +
+    personal_number_field + personal_number_check;
+
+  const check_digits: MRZCheckDigits = {
+    passport_number: verify_check_digit(passport_number_field, passport_number_check),
+    date_of_birth: verify_check_digit(dob_field, dob_check),
+    expiry_date: verify_check_digit(expiry_field, expiry_check),
+    personal_number: verify_check_digit(personal_number_field, personal_number_check),
+    composite: verify_check_digit(composite_value, composite_check),
+  };
+
+  return {
+    valid: Object.values(check_digits).every(Boolean),
+    check_digits,
+    lines: [line1, line2],
+    fields: {
+      document_code,
+      issuing_country,
+      surname,
+      given_names,
+      passport_number: passport_number_field.replace(/</g, ''),
+      nationality,
+      date_of_birth: mrz_date_to_iso(dob_field, 'birth'),
+      gender: gender === '<' ? 'X' : gender,
+      expiry_date: mrz_date_to_iso(expiry_field, 'expiry'),
+      personal_number: personal_number_field.replace(/</g, ''),
+    },
+  };
+}
+
+/**
+ * Run Tesseract over an image restricted to the MRZ alphabet
+ */
+async function recognize_mrz(image: Buffer, signal?: AbortSignal): Promise<Page> {
+  return recognize_image(image, {
+    tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789<\n',
+  }, signal);
+}
+
+/**
+ * The two MRZ lines as scored words, each with the confidence and position of the OCR line it was read from
+ * page_number is 1 for the front image and 2 for the back
+ */
+function mrz_line_words(
+  page: Page,
+  lines: [string, string],
+  page_number: number,
+  geometry?: ImageGeometry
+): TextWord[] {
+  return lines.map(mrz_line => {
+    const ocr_line = page.lines.find(line => {
+      const normalised = normalise_mrz_line(line.text);
+      return normalised.length >= 10 && mrz_line.startsWith(normalised.substring(0, 10));
+    });
+    return {
+      text: mrz_line,
+      confidence: (ocr_line ? ocr_line.confidence : page.confidence) / 100,
+      page: page_number,
+      ...(ocr_line && geometry ? { bbox: to_source_bbox(ocr_line.bbox, geometry) } : {}),
+    };
+  });
+}
+
+/**
+ * Confidence fields for an MRZ parse, scored against the raw MRZ characters of each field
+ * Fields protected by a valid check digit are checksum-verified
+ */
+function mrz_confidence_fields(
+  mrz: MRZParseResult,
+  data: NonNullable<PassportOCRResult['data']>
+): Record<string, { value: unknown; tier: PatternTier }> {
+  const [line1, line2] = mrz.lines;
+  const verified = (ok: boolean): PatternTier => (ok ? 'checksum' : 'structured');
+
+  return {
+    full_name: { value: data.full_name, tier: 'structured' },
+    surname: { value: data.surname, tier: 'structured' },
+    given_names: { value: data.given_names, tier: 'structured' },
+    issuing_country: { value: line1.substring(2, 5), tier: 'structured' },
+    passport_number: { value: line2.substring(0, 9), tier: verified(mrz.check_digits.passport_number) },
+    nationality: { value: line2.substring(10, 13), tier: 'structured' },
+    date_of_birth: { value: line2.substring(13, 19), tier: verified(mrz.check_digits.date_of_birth) },
+    gender: { value: line2.substring(20, 21), tier: 'structured' },
+    expiry_date: { value: line2.substring(21, 27), tier: verified(mrz.check_digits.expiry_date) },
+  };
+}
+
+/**
+ * Process passport locally by reading the machine-readable zone
+ * Tries the front (data page) first and falls back to the back image; either may be missing
+ * geometry maps OCR positions back onto the uploaded images for field locations
+ */
+export async function process_local_mrz(
+  front_buffer: Buffer | undefined,
+  back_buffer: Buffer | undefined,
+  geometry: { front?: ImageGeometry; back?: ImageGeometry } = {},
+  signal?: AbortSignal
+): Promise<PassportOCRResult> {
+  try {
+    let mrz: MRZParseResult | null = null;
+    let mrz_words: TextWord[] = [];
+    let raw_text = '';
+
+    const images = [
+      { buffer: front_buffer, page_number: 1, geometry: geometry.front },
+      { buffer: back_buffer, page_number: 2, geometry: geometry.back },
+    ];
+
+    for (const image of images) {
+      if (!image.buffer) continue;
+      const page = await recognize_mrz(image.buffer, signal);
+      raw_text = page.text;
+      const lines = find_td3_lines(raw_text);
+      if (lines) {
+        mrz = parse_td3_mrz(lines[0], lines[1]);
+        mrz_words = mrz_line_words(page, mrz.lines, image.page_number, image.geometry);
+        if (mrz.valid) break;
+      }
+    }
+
+    if (!mrz) {
+      logger.warn('No TD3 MRZ found in passport images');
+      return {
+        status: 'error',
+        source: 'local_mrz',
+        ...result_error('MRZ_NOT_FOUND', 'Machine-readable zone not found in passport images'),
+        raw_result: { raw_text },
+      };
+    }
+
+    const { fields } = mrz;
+    const data: PassportOCRResult['data'] = {
+      full_name: [fields.given_names, fields.surname].filter(Boolean).join(' '),
+      surname: fields.surname,
+      given_names: fields.given_names,
+      passport_number: fields.passport_number,
+      date_of_birth: fields.date_of_birth,
+      expiry_date: fields.expiry_date,
+      nationality: fields.nationality,
+      issuing_country: fields.issuing_country,
+      gender: fields.gender,
+    };
+
+    const raw_result = {
+      mrz: mrz.lines,
+      check_digits: mrz.check_digits,
+      valid: mrz.valid,
+    };
+
+    const confidence_report = build_confidence_report(mrz_confidence_fields(mrz, data!), mrz_words);
+
+    if (!mrz.valid) {
+      const failed = Object.entries(mrz.check_digits)
+        .filter(([, ok]) => !ok)
+        .map(([field]) => field);
+      logger.warn(`MRZ check digit validation failed: ${failed.join(', ')}`);
+      return {
+        status: 'error',
+        source: 'local_mrz',
+        data,
+        ...result_error('MRZ_CHECK_FAILED', `MRZ check digit validation failed: ${failed.join(', ')}`),
+        raw_result,
+        ...confidence_report,
+      };
+    }
+
+    logger.info('Local MRZ passport OCR completed successfully');
+
+    return {
+      status: 'success',
+      source: 'local_mrz',
+      data,
+      raw_result,
+      ...confidence_report,
+    };
+  } catch (error) {
+    logger.error('Local MRZ OCR failed:', error);
+    return {
+      status: 'error',
+      source: 'local_mrz',
+      ...to_result_error(error),
+    };
+  }
+}
+
+export default {
+  compute_check_digit,
+  find_td3_lines,
+  parse_td3_mrz,
+  process_local_mrz,
+};
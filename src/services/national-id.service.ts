@@ -0,0 +1,302 @@
+import logger from '../utils/logger.js';
+import { invalid_document_error, type DocumentTextResult, type TextSource } from './document-text.service.js';
+import { type ResultError } from '../utils/errors.js';
+import { DATE_TEXT, set_normalised_date } from '../utils/date-time.js';
+import { match_field, title_case_name } from '../utils/text-fields.js';
+import { build_confidence_report, type FieldLocation, type PatternTier } from './confidence.service.js';
+
+export type NationalIdType = 'aadhaar' | 'pan' | 'emirates_id' | 'other';
+
+export interface NationalIdOCRResult extends ResultError {
+  status: 'success' | 'error' | 'invalid';
+  data?: {
+    id_type?: NationalIdType;
+    id_number?: string; // Aadhaar: 12 digits; PAN: ABCDE1234F; Emirates ID: 784-YYYY-NNNNNNN-C
+    full_name?: string;
+    date_of_birth?: string;
+    date_of_birth_iso?: string; // YYYY-MM-DD
+    year_of_birth?: number; // Older Aadhaar cards print only the year
+    gender?: string;
+    nationality?: string;
+    expiry_date?: string;
+    expiry_date_iso?: string;
+    unparsed_fields?: string[]; // Date fields that could not be normalised
+    [key: string]: any;
+  };
+  raw_text?: string;
+  file_type?: string;
+  text_source?: TextSource;
+  page_count?: number;
+  preprocessing?: string[];
+  confidence?: Record<string, number>; // Field path -> 0-1
+  locations?: Record<string, FieldLocation>; // Field path -> page and bounding box of its source text
+  needs_review?: boolean;
+  low_confidence_fields?: string[];
+  reclassified_from?: string; // Declared document_type when the classifier routed the document here
+}
+
+// Field path -> value and the pattern tier that produced it, for confidence scoring
+type ConfidenceFields = Record<string, { value: unknown; tier: PatternTier }>;
+
+// Words that mark a national ID card; also used by the document classifier
+export const NATIONAL_ID_KEYWORDS = [
+  'aadhaar',
+  'aadhar',
+  'uidai',
+  'unique identification',
+  'government of india',
+  'income tax department',
+  'permanent account number',
+  'emirates',
+  'identity card',
+  'federal authority',
+  'id number',
+  'dob',
+  'year of birth',
+];
+
+// A recognised ID number counts as this many keywords; cards print few words besides it
+const ID_NUMBER_SCORE = 2;
+
+// Verhoeff tables, used by the Aadhaar check digit
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff check over a digit string that ends with its check digit
+ */
+function verhoeff_valid(digits: string): boolean {
+  let check = 0;
+  [...digits].reverse().forEach((digit, index) => {
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[index % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+/**
+ * Luhn check over a digit string that ends with its check digit, used by Emirates ID numbers
+ */
+function luhn_valid(digits: string): boolean {
+  let sum = 0;
+  [...digits].reverse().forEach((char, index) => {
+    let digit = Number(char);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  });
+  return sum % 10 === 0;
+}
+
+/**
+ * Find the ID number on a card and work out the card type from its format
+ * Aadhaar and Emirates ID numbers carry a check digit: a valid one scores at the checksum tier,
+ * an invalid one (likely misread) at the fallback tier
+ */
+export function find_id_number(
+  text: string
+): { id_type: NationalIdType; id_number: string; raw: string; tier: PatternTier } | undefined {
+  // Emirates ID: 784-1990-1234567-1
+  const emirates = text.match(/(?<!\d)(784)[\s\-]?(\d{4})[\s\-]?(\d{7})[\s\-]?(\d)(?![\s\-]?\d)/);
+  if (emirates) {
+    const digits = emirates.slice(1, 5).join('');
+    return {
+      id_type: 'emirates_id',
+      id_number: emirates.slice(1, 5).join('-'),
+      raw: emirates[0],
+      tier: luhn_valid(digits) ? 'checksum' : 'fallback',
+    };
+  }
+
+  // Aadhaar: 2345 6789 0123; prefer a number whose check digit is valid over other 12-digit runs
+  const aadhaar_matches = [...text.matchAll(/(?<!\d)([2-9]\d{3})\s?(\d{4})\s?(\d{4})(?!\s?\d)/g)];
+  if (aadhaar_matches.length > 0) {
+    const valid = aadhaar_matches.find(match => verhoeff_valid(match.slice(1, 4).join('')));
+    const chosen = valid || aadhaar_matches[0];
+    return {
+      id_type: 'aadhaar',
+      id_number: chosen.slice(1, 4).join(''),
+      raw: chosen[0],
+      tier: valid ? 'checksum' : 'fallback',
+    };
+  }
+
+  // PAN: ABCDE1234F
+  const pan = text.match(/\b([A-Z]{5}\d{4}[A-Z])\b/);
+  if (pan) {
+    return { id_type: 'pan', id_number: pan[1], raw: pan[1], tier: 'structured' };
+  }
+
+  // Anything else with a label: "ID No: X1234567"
+  const labelled = text.match(/(?:id\s*(?:no\.?|number)|identity\s+(?:card\s+)?(?:no\.?|number))\s*[:\-]?\s*([A-Z0-9][A-Z0-9\-]{4,19})/i);
+  if (labelled) {
+    return { id_type: 'other', id_number: labelled[1].toUpperCase(), raw: labelled[1], tier: 'labelled' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Keyword score of text as a national ID card; a recognised ID number adds ID_NUMBER_SCORE
+ */
+export function national_id_score(text: string): number {
+  const lower_text = text.toLowerCase();
+  const found_keywords = NATIONAL_ID_KEYWORDS.filter(keyword => lower_text.includes(keyword));
+  const id_number = find_id_number(text);
+  const has_id_number = id_number !== undefined && (id_number.tier === 'checksum' || id_number.tier === 'structured');
+  return found_keywords.length + (has_id_number ? ID_NUMBER_SCORE : 0);
+}
+
+/**
+ * Validate if extracted text is a national ID card
+ */
+function validate_national_id(text: string): boolean {
+  // Need a score of at least 3 to be considered valid
+  return national_id_score(text) >= 3;
+}
+
+/**
+ * Extract national ID information from OCR text
+ * Also returns each field's value and pattern tier for confidence scoring
+ */
+function extract_national_id_data(
+  text: string,
+  reference_date?: Date
+): { data: NonNullable<NationalIdOCRResult['data']>; fields: ConfidenceFields } {
+  const data: NonNullable<NationalIdOCRResult['data']> = {};
+  const fields: ConfidenceFields = {};
+
+  const id_number = find_id_number(text);
+  if (id_number) {
+    data.id_type = id_number.id_type;
+    data.id_number = id_number.id_number;
+    fields.id_number = { value: id_number.raw, tier: id_number.tier };
+  }
+
+  const name = String.raw`([A-Za-z][A-Za-z' .\-]{2,59}?)`;
+  const full_name = match_field(text, [
+    // Emirates ID and most cards: "Name: John Doe"
+    [new RegExp(String.raw`^\s*(?:full\s+)?name\s*[:\-]\s*${name}\s*$`, 'im'), 'labelled'],
+    // PAN: "Name" (after its Hindi label) on one line, the name on the next
+    [new RegExp(String.raw`(?:^|\/)\s*name\s*\n\s*${name}\s*$`, 'im'), 'labelled'],
+    // Aadhaar: the name is the line above the date of birth
+    [new RegExp(String.raw`^\s*${name}\s*\n[^\n]*(?:dob|date\s+of\s+birth|year\s+of\s+birth)`, 'im'), 'positional'],
+  ]);
+  if (full_name && !/\b(?:government|india|income|department|father|authority)\b/i.test(full_name.value)) {
+    data.full_name = title_case_name(full_name.value.replace(/\s+/g, ' '));
+    fields.full_name = { value: full_name.value, tier: full_name.tier };
+  }
+
+  // Date of birth: "DOB: 01/01/1990", "Date of Birth 01-01-1990", or "Year of Birth: 1990"
+  const date_of_birth = match_field(text, [
+    [new RegExp(String.raw`(?:dob|d\.o\.b\.?|date\s+of\s+birth|birth\s+date)\s*[:\-]?\s*(${DATE_TEXT})`, 'i'), 'labelled'],
+  ]);
+  if (date_of_birth) {
+    data.date_of_birth = date_of_birth.value;
+    fields.date_of_birth = { value: data.date_of_birth, tier: date_of_birth.tier };
+  } else {
+    const year_of_birth = match_field(text, [[/year\s+of\s+birth\s*[:\-]?\s*((?:19|20)\d{2})\b/i, 'labelled']]);
+    if (year_of_birth) {
+      data.year_of_birth = Number(year_of_birth.value);
+      fields.year_of_birth = { value: year_of_birth.value, tier: year_of_birth.tier };
+    }
+  }
+
+  const gender = match_field(text, [
+    [/(?:sex|gender)\s*[:\-]?\s*(male|female|transgender|[MFX])\b/i, 'labelled'],
+    [/\b(male|female|transgender)\b/i, 'structured'],
+  ]);
+  if (gender) {
+    const value = gender.value.toUpperCase();
+    data.gender = value.length === 1 ? value : title_case_name(value);
+    fields.gender = { value: gender.value, tier: gender.tier };
+  }
+
+  const nationality = match_field(text, [
+    [/nationality\s*[:\-]\s*([A-Za-z][A-Za-z .\-]{1,39}?)\s*$/im, 'labelled'],
+  ]);
+  if (nationality) {
+    data.nationality = nationality.value;
+    fields.nationality = { value: data.nationality, tier: nationality.tier };
+  }
+
+  const expiry_date = match_field(text, [
+    [new RegExp(String.raw`(?:expiry\s+date|date\s+of\s+expiry|expires\s+on|valid\s+(?:until|till))\s*[:\-]?\s*(${DATE_TEXT})`, 'i'), 'labelled'],
+  ]);
+  if (expiry_date) {
+    data.expiry_date = expiry_date.value;
+    fields.expiry_date = { value: data.expiry_date, tier: expiry_date.tier };
+  }
+
+  // Normalised dates; a birth date cannot be in the future, which settles two-digit years
+  const unparsed: string[] = [];
+  set_normalised_date(data, 'date_of_birth', unparsed, { reference_date, past_only: true });
+  set_normalised_date(data, 'expiry_date', unparsed, { reference_date });
+  if (unparsed.length > 0) {
+    data.unparsed_fields = unparsed;
+  }
+
+  return { data, fields };
+}
+
+/**
+ * Validate and extract a national ID card from document text that has already been read
+ */
+export function extract_national_id_result(document: DocumentTextResult, reference_date?: Date): NationalIdOCRResult {
+  const { text, words, file_type, text_source, page_count, preprocessing } = document;
+  const source_info = { file_type, text_source, page_count, preprocessing };
+
+  // Validate if it's a national ID card
+  if (!validate_national_id(text)) {
+    logger.warn('Extracted text does not appear to be a valid national ID');
+    return {
+      status: 'invalid',
+      ...invalid_document_error(document, 'NOT_A_NATIONAL_ID', 'Text does not contain national ID information'),
+      raw_text: text,
+      ...source_info,
+    };
+  }
+
+  // Extract ID data
+  const { data: extracted_data, fields } = extract_national_id_data(text, reference_date);
+  const confidence_report = build_confidence_report(fields, words);
+
+  // Ensure we have at least the ID number
+  if (!extracted_data.id_number) {
+    logger.warn('Could not extract the ID number');
+  }
+
+  return {
+    status: 'success',
+    data: extracted_data,
+    raw_text: text,
+    ...source_info,
+    ...confidence_report,
+  };
+}
+
+export default {
+  extract_national_id_result,
+};
@@ -3,58 +3,227 @@ import logger from '../utils/logger.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { process_local_mrz } from './mrz.service.js';
+import { preprocess_image, type ImageGeometry, type PreprocessProfile } from './preprocess.service.js';
+import { set_normalised_date } from '../utils/date-time.js';
+import { build_confidence_report } from './confidence.service.js';
+import { download_file } from './download.service.js';
+import { ServiceError, to_result_error, type ErrorCode, type ResultError } from '../utils/errors.js';
 
-export interface PassportOCRResult {
+export interface PassportOCRResult extends ResultError {
   status: 'success' | 'error';
   data?: {
     full_name?: string;
     passport_number?: string;
     date_of_birth?: string;
+    date_of_birth_iso?: string; // YYYY-MM-DD
     expiry_date?: string;
+    expiry_date_iso?: string;
+    unparsed_fields?: string[]; // Date fields that could not be normalised
     nationality?: string;
     place_of_birth?: string;
     gender?: string;
     [key: string]: any;
   };
-  error?: string;
+  source?: 'gridlines' | 'local_mrz';
+  preprocessing?: {
+    front: string[];
+    back: string[];
+  };
+  confidence?: Record<string, number>; // Field -> 0-1
+  locations?: Record<string, any>; // Field -> FieldLocation (local MRZ), or Gridlines' own position data as returned
+  needs_review?: boolean;
+  low_confidence_fields?: string[];
+  reclassified_from?: string; // Declared document_type when the classifier routed the document here
+  missing_side?: 'front' | 'back'; // Only one page was uploaded
   raw_result?: any;
 }
 
 /**
- * Process passport OCR using Gridlines API
+ * Download one passport page from its pre-signed URL
+ */
+async function download_passport_page(file_url: string, side: 'front' | 'back'): Promise<Buffer> {
+  const file = await download_file(file_url, `passport ${side}`);
+  return file.buffer;
+}
+
+/**
+ * Process passport OCR
+ * Mode is chosen by PASSPORT_OCR_MODE: Gridlines API, local MRZ parsing,
+ * or local MRZ first with Gridlines fallback when check digits fail
+ * Either page may be missing; the data page alone usually carries the MRZ
  */
 export async function process_passport_ocr(
-  file_front_url: string,
-  file_back_url: string
+  file_front_url: string | undefined,
+  file_back_url: string | undefined
 ): Promise<PassportOCRResult> {
+  const missing_side = !file_front_url ? 'front' : !file_back_url ? 'back' : undefined;
+  const result = await run_passport_ocr(file_front_url, file_back_url);
+  return missing_side ? { ...result, missing_side } : result;
+}
+
+/**
+ * Process passport OCR from page images already in memory (e.g. uploaded to /process/extract)
+ * Aborting `signal` stops the work before each page's pre-processing and recognition, and cancels a Gridlines call
+ */
+export async function process_passport_files(
+  front_buffer: Buffer | undefined,
+  back_buffer: Buffer | undefined,
+  signal?: AbortSignal
+): Promise<PassportOCRResult> {
+  const missing_side = !front_buffer ? 'front' : !back_buffer ? 'back' : undefined;
   try {
-    // Download files from pre-signed URLs
-    logger.info(`Processing passport: front=${file_front_url.substring(0, 80)}..., back=${file_back_url.substring(0, 80)}...`);
-    
-    let front_buffer: Buffer;
-    let back_buffer: Buffer;
-
-    // Download front image
-    const front_response = await fetch(file_front_url);
-    if (!front_response.ok) {
-      throw new Error(`Failed to download passport front: ${front_response.status} ${front_response.statusText}`);
+    if (!front_buffer && !back_buffer) {
+      throw new ServiceError('MISSING_PASSPORT_PAGES', 'No passport pages to process');
     }
-    front_buffer = Buffer.from(await front_response.arrayBuffer());
+    const result = await ocr_passport_pages(front_buffer, back_buffer, signal);
+    return missing_side ? { ...result, missing_side } : result;
+  } catch (error) {
+    logger.error('Passport OCR failed:', error);
+    return {
+      status: 'error',
+      ...to_result_error(error),
+      ...(missing_side ? { missing_side } : {}),
+    };
+  }
+}
 
-    // Download back image
-    const back_response = await fetch(file_back_url);
-    if (!back_response.ok) {
-      throw new Error(`Failed to download passport back: ${back_response.status} ${back_response.statusText}`);
+/**
+ * Download and OCR whichever passport pages were uploaded
+ */
+async function run_passport_ocr(
+  file_front_url: string | undefined,
+  file_back_url: string | undefined
+): Promise<PassportOCRResult> {
+  try {
+    if (!file_front_url && !file_back_url) {
+      throw new ServiceError('MISSING_PASSPORT_PAGES', 'No passport pages to process');
     }
-    back_buffer = Buffer.from(await back_response.arrayBuffer());
 
+    // Download files from pre-signed URLs
+    logger.info(
+      `Processing passport: front=${file_front_url ? `${file_front_url.substring(0, 80)}...` : 'missing'}, ` +
+      `back=${file_back_url ? `${file_back_url.substring(0, 80)}...` : 'missing'}`
+    );
+
+    const front_buffer = file_front_url ? await download_passport_page(file_front_url, 'front') : undefined;
+    const back_buffer = file_back_url ? await download_passport_page(file_back_url, 'back') : undefined;
+
+    return await ocr_passport_pages(front_buffer, back_buffer);
+  } catch (error) {
+    logger.error('Passport OCR failed:', error);
+    return {
+      status: 'error',
+      ...to_result_error(error),
+    };
+  }
+}
+
+/**
+ * OCR passport page images with the mode chosen by PASSPORT_OCR_MODE
+ */
+async function ocr_passport_pages(
+  front_buffer: Buffer | undefined,
+  back_buffer: Buffer | undefined,
+  signal?: AbortSignal
+): Promise<PassportOCRResult> {
+  const mode = env.passport.ocr_mode;
+  const gridlines = (front: Buffer | undefined, back: Buffer | undefined) => process_with_gridlines(front, back, signal);
+
+  if (mode === 'gridlines') {
+    return await with_preprocessing(front_buffer, back_buffer, 'upload', gridlines, signal);
+  }
+
+  const local_result = await with_preprocessing(
+    front_buffer,
+    back_buffer,
+    'ocr',
+    (front, back, geometry) => process_local_mrz(front, back, geometry, signal),
+    signal
+  );
+  if (local_result.data) {
+    normalise_passport_dates(local_result.data);
+  }
+  if (mode === 'local_mrz' || local_result.status === 'success') {
+    return local_result;
+  }
+
+  logger.info(`Local MRZ failed (${local_result.error}), falling back to Gridlines`);
+  return await with_preprocessing(front_buffer, back_buffer, 'upload', gridlines, signal);
+}
+
+/**
+ * Add ISO dates next to the raw passport dates
+ * Two-digit years resolve to the nearest century, except that a date of birth is never in the future
+ */
+function normalise_passport_dates(data: NonNullable<PassportOCRResult['data']>): void {
+  const unparsed: string[] = [];
+  set_normalised_date(data, 'date_of_birth', unparsed, { past_only: true });
+  set_normalised_date(data, 'expiry_date', unparsed);
+  set_normalised_date(data, 'date_of_issue', unparsed, { past_only: true });
+  if (unparsed.length > 0) {
+    data.unparsed_fields = unparsed;
+  }
+}
+
+/**
+ * Pre-process the passport images for the given profile, then run the processor
+ * Local OCR gets the full OCR pipeline; Gridlines uploads are only oriented, downscaled and re-encoded
+ */
+async function with_preprocessing(
+  front_buffer: Buffer | undefined,
+  back_buffer: Buffer | undefined,
+  profile: PreprocessProfile,
+  processor: (
+    front: Buffer | undefined,
+    back: Buffer | undefined,
+    geometry: { front?: ImageGeometry; back?: ImageGeometry }
+  ) => Promise<PassportOCRResult>,
+  signal?: AbortSignal
+): Promise<PassportOCRResult> {
+  signal?.throwIfAborted();
+  const front = front_buffer ? await preprocess_image(front_buffer, profile) : undefined;
+  signal?.throwIfAborted();
+  const back = back_buffer ? await preprocess_image(back_buffer, profile) : undefined;
+  signal?.throwIfAborted();
+  const result = await processor(front?.buffer, back?.buffer, { front: front?.geometry, back: back?.geometry });
+
+  return {
+    ...result,
+    preprocessing: {
+      front: front?.steps || [],
+      back: back?.steps || [],
+    },
+  };
+}
+
+/**
+ * Error code for a failed Gridlines response
+ */
+function gridlines_error_code(status: number): ErrorCode {
+  if (status === 401 || status === 403) return 'PROVIDER_AUTH';
+  if (status === 429) return 'PROVIDER_RATE_LIMITED';
+  if (status === 408 || status >= 500) return 'PROVIDER_UNAVAILABLE';
+  return 'PROVIDER_REJECTED';
+}
+
+/**
+ * Process passport OCR using Gridlines API
+ * A missing page is left out of the request
+ */
+async function process_with_gridlines(
+  front_buffer: Buffer | undefined,
+  back_buffer: Buffer | undefined,
+  signal?: AbortSignal
+): Promise<PassportOCRResult> {
+  try {
     // Create temporary files
     const temp_dir = os.tmpdir();
     const front_temp_path = path.join(temp_dir, `passport_front_${Date.now()}.jpg`);
     const back_temp_path = path.join(temp_dir, `passport_back_${Date.now()}.jpg`);
 
-    fs.writeFileSync(front_temp_path, front_buffer);
-    fs.writeFileSync(back_temp_path, back_buffer);
+    if (front_buffer) fs.writeFileSync(front_temp_path, front_buffer);
+    if (back_buffer) fs.writeFileSync(back_temp_path, back_buffer);
 
     try {
       // Call Gridlines API
@@ -62,14 +231,18 @@ export async function process_passport_ocr(
       const FormData = (await import('form-data')).default;
       const form_data = new FormData();
       
-      form_data.append('file_front', front_buffer, {
-        filename: 'passport_front.jpg',
-        contentType: 'image/jpeg',
-      });
-      form_data.append('file_back', back_buffer, {
-        filename: 'passport_back.jpg',
-        contentType: 'image/jpeg',
-      });
+      if (front_buffer) {
+        form_data.append('file_front', front_buffer, {
+          filename: 'passport_front.jpg',
+          contentType: 'image/jpeg',
+        });
+      }
+      if (back_buffer) {
+        form_data.append('file_back', back_buffer, {
+          filename: 'passport_back.jpg',
+          contentType: 'image/jpeg',
+        });
+      }
       form_data.append('consent', 'Y');
 
       // Gridlines API expects specific format
@@ -82,11 +255,14 @@ export async function process_passport_ocr(
           ...form_data.getHeaders(), // Add Content-Type with boundary for multipart/form-data
         },
         body: form_data as any,
+        signal,
+      }).catch(error => {
+        throw new ServiceError('PROVIDER_UNAVAILABLE', `Gridlines API unreachable: ${error instanceof Error ? error.message : error}`);
       });
 
       if (!response.ok) {
         const error_text = await response.text();
-        throw new Error(`Gridlines API error: ${response.status} - ${error_text}`);
+        throw new ServiceError(gridlines_error_code(response.status), `Gridlines API error: ${response.status} - ${error_text}`);
       }
 
       const result: any = await response.json();
@@ -102,13 +278,29 @@ export async function process_passport_ocr(
         gender: result.gender || result.sex,
         ...(result as Record<string, any>),
       };
+      normalise_passport_dates(extracted_data);
+
+      // Gridlines returns no per-field confidence; its structured fields are scored at the structured tier
+      const confidence_report = build_confidence_report(
+        Object.fromEntries(
+          ['full_name', 'passport_number', 'date_of_birth', 'expiry_date', 'nationality', 'place_of_birth', 'gender']
+            .map(field => [field, { value: extracted_data[field], tier: 'structured' as const }])
+        ),
+        []
+      );
+
+      // Field positions are passed through in whatever shape Gridlines reports them, if at all
+      const locations = result.bounding_boxes || result.field_coordinates || result.coordinates;
 
       logger.info('Passport OCR completed successfully');
 
       return {
         status: 'success',
+        source: 'gridlines',
         data: extracted_data,
         raw_result: result,
+        ...confidence_report,
+        ...(locations && typeof locations === 'object' ? { locations } : {}),
       };
     } finally {
       // Clean up temp files
@@ -120,15 +312,17 @@ export async function process_passport_ocr(
       }
     }
   } catch (error) {
-    logger.error('Passport OCR failed:', error);
+    logger.error('Gridlines passport OCR failed:', error);
     return {
       status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      source: 'gridlines',
+      ...to_result_error(error),
     };
   }
 }
 
 export default {
   process_passport_ocr,
+  process_passport_files,
 };
 
@@ -0,0 +1,158 @@
+import { createRequire } from 'module';
+import * as path from 'path';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+import type { BoundingBox } from './confidence.service.js';
+
+const require = createRequire(import.meta.url);
+
+// Fonts for PDFs that reference the standard 14 fonts without embedding them
+const standard_font_data_url = path.join(
+  path.dirname(require.resolve('pdfjs-dist/package.json')),
+  'standard_fonts',
+  path.sep
+);
+
+export interface PDFPageContent {
+  page_number: number;
+  text: string; // Embedded text layer ('' if none)
+  items: PDFTextItem[]; // Text layer runs with their position
+  image?: Buffer; // PNG rendering, only for pages without a usable text layer
+  image_width?: number;
+  image_height?: number;
+}
+
+export interface PDFTextItem {
+  text: string;
+  bbox: BoundingBox; // Fractions of the page size
+}
+
+interface TextItemLike {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface ViewportLike {
+  width: number;
+  height: number;
+  convertToViewportRectangle(rect: number[]): number[];
+}
+
+/**
+ * Position text items on the page as fractions of its size, origin top-left
+ */
+function items_to_positioned(items: TextItemLike[], viewport: ViewportLike): PDFTextItem[] {
+  return items
+    .filter(item => item.str && item.str.trim())
+    .map(item => {
+      const [, , , , x, y] = item.transform;
+      const font_height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+      const [ax, ay, bx, by] = viewport.convertToViewportRectangle([x, y, x + item.width, y + font_height]);
+      return {
+        text: item.str.trim(),
+        bbox: {
+          x0: Math.min(ax, bx) / viewport.width,
+          y0: Math.min(ay, by) / viewport.height,
+          x1: Math.max(ax, bx) / viewport.width,
+          y1: Math.max(ay, by) / viewport.height,
+        },
+      };
+    });
+}
+
+/**
+ * Rebuild reading-order text from pdf.js text items
+ * Items are grouped into lines by baseline, then ordered left to right
+ */
+function items_to_text(items: TextItemLike[]): string {
+  const lines = new Map<number, TextItemLike[]>();
+
+  for (const item of items) {
+    if (!item.str || !item.str.trim()) continue;
+    const y = Math.round(item.transform[5] / 2) * 2; // Tolerate small baseline jitter
+    if (!lines.has(y)) lines.set(y, []);
+    lines.get(y)!.push(item);
+  }
+
+  return [...lines.entries()]
+    .sort((a, b) => b[0] - a[0]) // PDF y axis points up
+    .map(([, line_items]) =>
+      line_items
+        .sort((a, b) => a.transform[4] - b.transform[4])
+        .map(item => item.str.trim())
+        .join(' ')
+    )
+    .join('\n');
+}
+
+/**
+ * Read each page of a PDF: use the embedded text layer where present,
+ * otherwise rasterise the page to PNG for OCR
+ */
+export async function read_pdf_pages(buffer: Buffer): Promise<PDFPageContent[]> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  const pdf_document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: standard_font_data_url,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const page_count = Math.min(pdf_document.numPages, env.pdf.max_pages);
+    if (pdf_document.numPages > env.pdf.max_pages) {
+      logger.warn(`PDF has ${pdf_document.numPages} pages, only the first ${env.pdf.max_pages} will be read`);
+    }
+
+    const pages: PDFPageContent[] = [];
+
+    for (let page_number = 1; page_number <= page_count; page_number++) {
+      const page = await pdf_document.getPage(page_number);
+
+      try {
+        const content = await page.getTextContent();
+        const text_items = content.items as TextItemLike[];
+        const text = items_to_text(text_items);
+
+        if (text.replace(/\s/g, '').length >= env.pdf.min_text_chars) {
+          pages.push({ page_number, text, items: items_to_positioned(text_items, page.getViewport({ scale: 1 })) });
+          continue;
+        }
+
+        // No usable text layer (scanned page): rasterise for OCR
+        const viewport = page.getViewport({ scale: env.pdf.render_scale });
+        const canvas_factory = (pdf_document as any).canvasFactory;
+        const { canvas, context } = canvas_factory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+        // White background; scanned PDFs may have transparent regions
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+
+        await page.render({ canvasContext: context, viewport }).promise;
+        pages.push({
+          page_number,
+          text,
+          items: [],
+          image: canvas.toBuffer('image/png'),
+          image_width: canvas.width,
+          image_height: canvas.height,
+        });
+        canvas_factory.destroy({ canvas, context });
+      } finally {
+        page.cleanup();
+      }
+    }
+
+    return pages;
+  } finally {
+    await pdf_document.destroy();
+  }
+}
+
+export default {
+  read_pdf_pages,
+};
@@ -0,0 +1,295 @@
+import sharp from 'sharp';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+
+// ocr: full pipeline for Tesseract; upload: orientation and size only, re-encoded as JPEG for external APIs
+export type PreprocessProfile = 'ocr' | 'upload';
+
+export interface PreprocessResult {
+  buffer: Buffer;
+  steps: string[]; // Steps applied, e.g. ['auto_rotate', 'downscale:4032x3024->2500x1875', 'deskew:-2.4']
+  geometry?: ImageGeometry; // Absent if the image could not be decoded
+}
+
+// How the output image relates to the uploaded one, to map OCR coordinates back onto it
+export interface ImageGeometry {
+  width: number; // Uploaded image, after EXIF orientation
+  height: number;
+  scale: number; // Resize factor applied
+  angle: number; // Deskew rotation applied, in degrees
+  output_width: number; // Image handed to OCR
+  output_height: number;
+}
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+async function to_raw(image: sharp.Sharp): Promise<RawImage> {
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+function from_raw(raw: RawImage): sharp.Sharp {
+  return sharp(raw.data, { raw: { width: raw.width, height: raw.height, channels: raw.channels } });
+}
+
+/**
+ * Estimate text skew in degrees with a projection profile
+ * The angle at which dark-pixel row sums are most sharply peaked is the one where text lines are horizontal
+ */
+async function estimate_skew_angle(raw: RawImage): Promise<number> {
+  const sample_width = Math.min(raw.width, 800);
+  const sample = await to_raw(from_raw(raw).resize({ width: sample_width }).grayscale());
+
+  // Dark pixels relative to the sample mean
+  let sum = 0;
+  for (let i = 0; i < sample.data.length; i++) sum += sample.data[i];
+  const dark_threshold = (sum / sample.data.length) * 0.7;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < sample.height; y++) {
+    for (let x = 0; x < sample.width; x++) {
+      if (sample.data[y * sample.width + x] < dark_threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+
+  if (xs.length < 100) {
+    return 0;
+  }
+
+  const offset = sample.width + sample.height;
+  const score = (angle: number): number => {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Float64Array(offset * 2);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+    let total = 0;
+    for (let i = 1; i < bins.length; i++) {
+      const diff = bins[i] - bins[i - 1];
+      total += diff * diff;
+    }
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number): number => {
+    let best_angle = 0;
+    let best_score = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const s = score(angle);
+      if (s > best_score) {
+        best_score = s;
+        best_angle = angle;
+      }
+    }
+    return best_angle;
+  };
+
+  const max_angle = env.preprocess.deskew_max_angle;
+  const coarse = search(-max_angle, max_angle, 1);
+  return Math.round(search(coarse - 1, coarse + 1, 0.1) * 10) / 10;
+}
+
+/**
+ * Adaptive mean thresholding: a pixel is black when darker than its neighbourhood mean by `offset`
+ * Handles uneven lighting in phone photos where a global threshold fails
+ */
+async function adaptive_threshold(gray: RawImage): Promise<RawImage> {
+  const sigma = Math.max(env.preprocess.threshold_window / 6, 0.3);
+  const mean = await to_raw(from_raw(gray).blur(sigma));
+  const output = Buffer.alloc(gray.data.length);
+
+  for (let i = 0; i < gray.data.length; i++) {
+    output[i] = gray.data[i] < mean.data[i] - env.preprocess.threshold_offset ? 0 : 255;
+  }
+
+  return { ...gray, data: output };
+}
+
+/**
+ * Apply EXIF rotation and fit the image within configured size bounds
+ */
+async function orient_and_resize(
+  buffer: Buffer,
+  steps: string[],
+  allow_upscale: boolean
+): Promise<{ image: sharp.Sharp; width: number; height: number; scale: number }> {
+  const metadata = await sharp(buffer).metadata();
+  let image = sharp(buffer, { failOn: 'none' });
+  let width = metadata.width || 0;
+  let height = metadata.height || 0;
+
+  if (env.preprocess.auto_rotate) {
+    image = image.rotate(); // No-arg rotate applies EXIF orientation
+    if (metadata.orientation && metadata.orientation !== 1) {
+      steps.push('auto_rotate');
+      if (metadata.orientation >= 5) {
+        [width, height] = [height, width];
+      }
+    }
+  }
+
+  const longest = Math.max(width, height);
+  let applied_scale = 1;
+  if (longest > env.preprocess.max_dimension) {
+    const scale = env.preprocess.max_dimension / longest;
+    applied_scale = scale;
+    const new_width = Math.round(width * scale);
+    const new_height = Math.round(height * scale);
+    image = image.resize({ width: new_width, height: new_height });
+    steps.push(`downscale:${width}x${height}->${new_width}x${new_height}`);
+  } else if (allow_upscale && longest > 0 && longest < env.preprocess.min_dimension) {
+    const scale = Math.min(env.preprocess.min_dimension / longest, 3);
+    applied_scale = scale;
+    const new_width = Math.round(width * scale);
+    const new_height = Math.round(height * scale);
+    image = image.resize({ width: new_width, height: new_height, kernel: 'lanczos3' });
+    steps.push(`upscale:${width}x${height}->${new_width}x${new_height}`);
+  }
+
+  return { image, width, height, scale: applied_scale };
+}
+
+async function run_ocr_pipeline(
+  buffer: Buffer,
+  steps: string[]
+): Promise<{ buffer: Buffer; geometry: ImageGeometry }> {
+  const oriented = await orient_and_resize(buffer, steps, env.preprocess.upscale);
+  const use_grayscale = env.preprocess.grayscale || env.preprocess.threshold;
+  let raw = await to_raw(use_grayscale ? oriented.image.grayscale() : oriented.image.removeAlpha());
+  let applied_angle = 0;
+  if (use_grayscale) {
+    steps.push('grayscale');
+  }
+
+  if (env.preprocess.deskew) {
+    const angle = await estimate_skew_angle(raw);
+    if (Math.abs(angle) >= 0.3) {
+      const background = raw.channels === 1 ? { r: 255, g: 255, b: 255 } : '#ffffff';
+      raw = await to_raw(from_raw(raw).rotate(-angle, { background }));
+      applied_angle = angle;
+      steps.push(`deskew:${angle}`);
+    }
+  }
+
+  if (env.preprocess.threshold) {
+    raw = await adaptive_threshold(raw);
+    steps.push('threshold');
+  }
+
+  return {
+    buffer: await from_raw(raw).png().toBuffer(),
+    geometry: {
+      width: oriented.width,
+      height: oriented.height,
+      scale: oriented.scale,
+      angle: applied_angle,
+      output_width: raw.width,
+      output_height: raw.height,
+    },
+  };
+}
+
+async function run_upload_pipeline(buffer: Buffer, steps: string[]): Promise<Buffer> {
+  const oriented = await orient_and_resize(buffer, steps, false);
+  const output = await oriented.image.jpeg({ quality: env.preprocess.upload_jpeg_quality, mozjpeg: true }).toBuffer();
+
+  // Re-encoding an already small, upright JPEG can make it bigger
+  if (steps.length === 0 && output.length >= buffer.length) {
+    return buffer;
+  }
+
+  steps.push(`jpeg:${buffer.length}->${output.length}`);
+  return output;
+}
+
+/**
+ * Geometry of an image passed through untouched
+ */
+async function unchanged_geometry(buffer: Buffer): Promise<ImageGeometry | undefined> {
+  try {
+    const { width = 0, height = 0 } = await sharp(buffer).metadata();
+    return { width, height, scale: 1, angle: 0, output_width: width, output_height: height };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map a pixel box on the pre-processed image to a box on the uploaded image, as fractions of its size
+ * Undoes the deskew rotation (about the image centre, which sharp keeps fixed when expanding the canvas) and the resize
+ */
+export function to_source_bbox(
+  bbox: { x0: number; y0: number; x1: number; y1: number },
+  geometry: ImageGeometry
+): { x0: number; y0: number; x1: number; y1: number } {
+  const radians = (geometry.angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const scaled_width = geometry.width * geometry.scale;
+  const scaled_height = geometry.height * geometry.scale;
+
+  const corners = [
+    [bbox.x0, bbox.y0], [bbox.x1, bbox.y0], [bbox.x0, bbox.y1], [bbox.x1, bbox.y1],
+  ].map(([x, y]) => {
+    const dx = x - geometry.output_width / 2;
+    const dy = y - geometry.output_height / 2;
+    return [
+      (dx * cos - dy * sin + scaled_width / 2) / scaled_width,
+      (dx * sin + dy * cos + scaled_height / 2) / scaled_height,
+    ];
+  });
+
+  const clamp = (n: number) => Math.min(Math.max(n, 0), 1);
+  return {
+    x0: clamp(Math.min(...corners.map(([x]) => x))),
+    y0: clamp(Math.min(...corners.map(([, y]) => y))),
+    x1: clamp(Math.max(...corners.map(([x]) => x))),
+    y1: clamp(Math.max(...corners.map(([, y]) => y))),
+  };
+}
+
+/**
+ * Pre-process an image before OCR or upload
+ * Falls back to the original buffer if the image cannot be decoded
+ */
+export async function preprocess_image(
+  buffer: Buffer,
+  profile: PreprocessProfile = 'ocr'
+): Promise<PreprocessResult> {
+  if (!env.preprocess.enabled) {
+    return { buffer, steps: [], geometry: await unchanged_geometry(buffer) };
+  }
+
+  const steps: string[] = [];
+
+  try {
+    if (profile === 'ocr') {
+      const output = await run_ocr_pipeline(buffer, steps);
+      logger.debug(`Pre-processed image (${profile}): ${steps.join(', ') || 'no changes'}`);
+      return { buffer: output.buffer, steps, geometry: output.geometry };
+    }
+
+    const output = await run_upload_pipeline(buffer, steps);
+    logger.debug(`Pre-processed image (${profile}): ${steps.join(', ') || 'no changes'}`);
+    return { buffer: output, steps };
+  } catch (error) {
+    logger.warn('Image pre-processing failed, using original image:', error instanceof Error ? error.message : error);
+    return { buffer, steps: ['skipped'] };
+  }
+}
+
+export default {
+  preprocess_image,
+  to_source_bbox,
+};
@@ -0,0 +1,1004 @@
+import { process_passport_ocr } from './passport.service.js';
+import { extract_flight_result, type FlightPassenger } from './flight.service.js';
+import { extract_hotel_result } from './hotel.service.js';
+import { extract_visa_result, type VisaOCRResult } from './visa.service.js';
+import { extract_insurance_result, type InsuranceOCRResult } from './insurance.service.js';
+import { extract_national_id_result, type NationalIdOCRResult } from './national-id.service.js';
+import { classify_document, resolve_document_type } from './classifier.service.js';
+import { invalid_document_error, type DocumentTextResult } from './document-text.service.js';
+import { map_ticket_to_passengers, type MappingDecision, type TravellerInfo } from './mapping.service.js';
+import { build_validation_reports, type TravellerResults, type ValidationReport } from './validation.service.js';
+import {
+  start_order_job,
+  update_document_job,
+  assign_document_job,
+  finish_order_job,
+  get_order_job,
+  job_state_from_result,
+  type DocumentJob,
+} from './job.service.js';
+import { deliver_webhook } from './webhook.service.js';
+import { publish_to_redis } from '../config/redis.js';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { create_limiter } from '../utils/concurrency.js';
+import { to_result_error, type ErrorCode, type ResultError } from '../utils/errors.js';
+
+// Shared across all orders processed by this process, and POST /process/extract requests in the API process
+export const global_limit = create_limiter(env.processing.global_concurrency);
+
+export interface DocumentPayload {
+  traveller_id: string;
+  traveller_name: string;
+  document_id: string;
+  file_url: string; // Pre-signed URL from main backend
+  document_type: string; // passport_front, passport_back, flight, hotel, visa, insurance, national_id, or auto to classify from the text
+  force_document_type?: boolean; // Set by reprocess requests: use document_type even if the text looks like another type
+}
+
+// A document once its type is settled
+interface RoutedDocument extends DocumentPayload {
+  reclassified_from?: string; // Declared document_type when the classifier changed it
+  document_text?: DocumentTextResult; // Text read while classifying, reused by the extractor
+}
+
+// A ticket or "auto" document, read while classifying; only passport pages skip the classifier
+interface ReadDocument extends RoutedDocument {
+  document_text: DocumentTextResult;
+}
+
+function was_read(doc: RoutedDocument): doc is ReadDocument {
+  return doc.document_text !== undefined;
+}
+
+export function is_passport_type(document_type: string): boolean {
+  return document_type === 'passport_front' || document_type === 'passport_back';
+}
+
+// Visas, insurance certificates and national IDs: one file each, mapped to travellers by the names printed on them
+export type TravelDocumentType = 'visa' | 'insurance' | 'national_id';
+type TravelDocumentResult = VisaOCRResult | InsuranceOCRResult | NationalIdOCRResult;
+
+const TRAVEL_DOCUMENT_EXTRACTORS: Record<TravelDocumentType, {
+  extract: (document: DocumentTextResult, reference_date: Date) => TravelDocumentResult;
+  names: (data: NonNullable<TravelDocumentResult['data']>) => string[];
+}> = {
+  visa: {
+    extract: extract_visa_result,
+    names: data => (data.holder_name ? [data.holder_name] : []),
+  },
+  insurance: {
+    extract: extract_insurance_result,
+    names: data => data.insured_names || [],
+  },
+  national_id: {
+    extract: extract_national_id_result,
+    names: data => (data.full_name ? [data.full_name] : []),
+  },
+};
+
+export function is_travel_document_type(document_type: string): document_type is TravelDocumentType {
+  return document_type in TRAVEL_DOCUMENT_EXTRACTORS;
+}
+
+/**
+ * Successful passport, flight and hotel results of every document in the order, grouped by the traveller
+ * each was mapped to. Read from the job store, so a reprocessed document is checked against the rest of the order
+ */
+async function stored_traveller_results(order_id: string): Promise<TravellerResults[]> {
+  const order = await get_order_job(order_id);
+  if (!order) return [];
+
+  const names = new Map(order.documents.map(doc => [doc.traveller_id, doc.traveller_name]));
+  const results = new Map<string, TravellerResults>();
+  const traveller = (traveller_id: string): TravellerResults => {
+    if (!results.has(traveller_id)) {
+      results.set(traveller_id, { traveller_id, traveller_name: names.get(traveller_id) || '', flights: [], hotels: [] });
+    }
+    return results.get(traveller_id)!;
+  };
+
+  for (const doc of order.documents) {
+    if (doc.result?.status !== 'success' || !doc.result.data) continue;
+    const document_type = doc.processed_as || doc.document_type;
+
+    if (is_passport_type(document_type)) {
+      // Both pages store the same result; the first page seen records it
+      const entry = traveller(doc.traveller_id);
+      if (entry.passport) {
+        entry.passport.document_ids.push(doc.document_id);
+      } else {
+        entry.passport = { document_ids: [doc.document_id], data: doc.result.data };
+      }
+      continue;
+    }
+
+    if (document_type !== 'flight' && document_type !== 'hotel') continue;
+    for (const decision of doc.mapping || []) {
+      if (decision.status !== 'matched' || !decision.traveller_id) continue;
+      const ticket = { document_id: doc.document_id, data: doc.result.data, matched_name: decision.extracted_name };
+      if (document_type === 'flight') {
+        traveller(decision.traveller_id).flights.push(ticket);
+      } else {
+        traveller(decision.traveller_id).hotels.push(ticket);
+      }
+    }
+  }
+
+  return [...results.values()];
+}
+
+/**
+ * Process documents for an order: OCR, map tickets to travellers,
+ * publish progress and update main backend
+ * reference_date resolves ticket dates printed without a year (defaults to now)
+ * travellers is everyone in the order, when documents are only some of its documents (reprocessing)
+ */
+export async function process_documents_async(
+  order_id: string,
+  documents: DocumentPayload[],
+  reference_date: Date = new Date(),
+  travellers?: TravellerInfo[]
+): Promise<void> {
+  const channel = `${env.redis.ocr_progress_channel}:${order_id}`;
+  
+  try {
+    logger.info(`Processing ${documents.length} documents for order ${order_id}`);
+    await start_order_job(order_id);
+
+    // Documents within the order run concurrently, bounded per order and globally
+    const order_limit = create_limiter(env.processing.order_concurrency);
+    const run = <T>(task: () => Promise<T>) => order_limit(() => global_limit(task));
+
+    // Tickets and "auto" documents are read and classified first, so a misfiled document
+    // (e.g. a hotel voucher uploaded as a flight) reaches the right extractor
+    const routed_docs = await Promise.all(
+      documents.map(doc =>
+        is_passport_type(doc.document_type)
+          ? Promise.resolve<RoutedDocument | null>(doc)
+          : run(() => route_document(order_id, channel, doc))
+      )
+    );
+
+    // Group documents by type and traveller
+    const passport_docs = new Map<string, { front?: RoutedDocument; back?: RoutedDocument }>();
+    const flight_docs: ReadDocument[] = [];
+    const hotel_docs: ReadDocument[] = [];
+    const travel_docs: Array<{ doc: ReadDocument; document_type: TravelDocumentType }> = [];
+
+    for (const doc of routed_docs) {
+      if (!doc) continue; // Could not be read or classified; already reported
+
+      if (is_passport_type(doc.document_type)) {
+        if (!passport_docs.has(doc.traveller_id)) {
+          passport_docs.set(doc.traveller_id, {});
+        }
+        const passport_pair = passport_docs.get(doc.traveller_id)!;
+        if (doc.document_type === 'passport_front') {
+          passport_pair.front = doc;
+        } else {
+          passport_pair.back = doc;
+        }
+      } else if (!was_read(doc)) {
+        continue;
+      } else if (doc.document_type === 'flight') {
+        flight_docs.push(doc);
+      } else if (doc.document_type === 'hotel') {
+        hotel_docs.push(doc);
+      } else if (is_travel_document_type(doc.document_type)) {
+        travel_docs.push({ doc, document_type: doc.document_type });
+      }
+    }
+
+    // All travellers in the order, for mapping tickets to passengers
+    const all_travellers: TravellerInfo[] = travellers || documents.map(d => ({
+      traveller_id: d.traveller_id,
+      traveller_name: d.traveller_name,
+    }));
+
+    const tasks: Promise<void>[] = [];
+
+    // Process passports; a traveller with only one page uploaded is processed from that page
+    for (const [traveller_id, { front, back }] of passport_docs.entries()) {
+      tasks.push(run(() => process_passport(order_id, channel, traveller_id, front, back)));
+    }
+
+    // Process flight tickets
+    for (const flight_doc of flight_docs) {
+      tasks.push(run(() => process_flight_document(order_id, channel, flight_doc, all_travellers, reference_date)));
+    }
+
+    // Process hotel tickets
+    for (const hotel_doc of hotel_docs) {
+      tasks.push(run(() => process_hotel_document(order_id, channel, hotel_doc, all_travellers, reference_date)));
+    }
+
+    // Process visas, insurance certificates and national IDs
+    for (const { doc, document_type } of travel_docs) {
+      tasks.push(run(() => process_travel_document(order_id, channel, doc, document_type, all_travellers, reference_date)));
+    }
+
+    await Promise.allSettled(tasks);
+
+    // Cross-check each traveller's passport, flights and hotels, including documents not processed in this run
+    await publish_validation_reports(order_id, channel);
+
+    await finish_order_job(order_id);
+    logger.info(`Completed processing documents for order ${order_id}`);
+  } catch (error) {
+    logger.error(`Failed to process documents for order ${order_id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Read and classify a ticket or "auto" document, and settle which extractor it goes to
+ * Returns null if it could not be read or its type could not be determined; the failure is already published
+ */
+async function route_document(
+  order_id: string,
+  channel: string,
+  doc: DocumentPayload
+): Promise<ReadDocument | null> {
+  try {
+    // Publish processing status
+    await publish_progress(channel, {
+      order_id,
+      traveller_id: doc.traveller_id,
+      traveller_name: doc.traveller_name,
+      document_id: doc.document_id,
+      document_type: doc.document_type,
+      status: 'processing',
+    });
+    await update_document_job(order_id, doc.document_id, { state: 'processing' });
+
+    const { classification, document } = await classify_document(doc.file_url);
+    const document_type = doc.force_document_type
+      ? doc.document_type
+      : resolve_document_type(doc.document_type, classification);
+
+    if (document_type === 'unknown') {
+      const failure = invalid_document_error(document, 'UNKNOWN_DOCUMENT_TYPE', 'Document type could not be determined from its text');
+      await publish_progress(channel, {
+        order_id,
+        traveller_id: doc.traveller_id,
+        traveller_name: doc.traveller_name,
+        document_id: doc.document_id,
+        document_type: doc.document_type,
+        status: 'failed',
+        ...failure,
+      });
+      await update_document_job(order_id, doc.document_id, {
+        state: 'invalid',
+        result: { status: 'invalid', ...failure, raw_text: document.text, classification },
+        ...failure,
+      });
+      return null;
+    }
+
+    if (document_type !== doc.document_type) {
+      logger.info(`Document ${doc.document_id} uploaded as ${doc.document_type} is being processed as ${document_type}`);
+      return { ...doc, document_type, reclassified_from: doc.document_type, document_text: document };
+    }
+
+    return { ...doc, document_text: document };
+  } catch (error) {
+    logger.error(`Failed to read document ${doc.document_id}:`, error);
+    const failure = to_result_error(error);
+    await publish_progress(channel, {
+      order_id,
+      traveller_id: doc.traveller_id,
+      traveller_name: doc.traveller_name,
+      document_id: doc.document_id,
+      document_type: doc.document_type,
+      status: 'failed',
+      ...failure,
+    });
+    await update_document_job(order_id, doc.document_id, { state: 'failed', ...failure });
+    return null;
+  }
+}
+
+/**
+ * OCR a passport, publish progress and update main backend
+ * Either page may be missing: the other is processed alone, and if that fails the result is
+ * reported as incomplete, naming the missing side
+ */
+async function process_passport(
+  order_id: string,
+  channel: string,
+  traveller_id: string,
+  front: RoutedDocument | undefined,
+  back: RoutedDocument | undefined
+): Promise<void> {
+  const pages = [front, back].filter((doc): doc is RoutedDocument => doc !== undefined);
+  const traveller_name = pages[0].traveller_name;
+  const document_id = pages[0].document_id;
+  const reclassified_from = front?.reclassified_from || back?.reclassified_from;
+  let missing_side: 'front' | 'back' | undefined;
+  if (!front) missing_side = 'front';
+  else if (!back) missing_side = 'back';
+
+  try {
+    // Publish processing status
+    await publish_progress(channel, {
+      order_id,
+      traveller_id,
+      traveller_name,
+      document_id,
+      document_type: 'passport',
+      status: 'processing',
+      reclassified_from,
+      missing_side,
+    });
+    for (const doc of pages) {
+      // Documents that went through the classifier were marked processing then
+      if (!doc.document_text) {
+        await update_document_job(order_id, doc.document_id, { state: 'processing' });
+      }
+    }
+
+    // Process passport OCR
+    const passport_result = await process_passport_ocr(front?.file_url, back?.file_url);
+    if (reclassified_from) {
+      passport_result.reclassified_from = reclassified_from;
+    }
+
+    // A single page that could not be read leaves the passport incomplete rather than failed
+    const incomplete = passport_result.status !== 'success' && missing_side !== undefined;
+    if (incomplete) {
+      const present_side = missing_side === 'front' ? 'back' : 'front';
+      passport_result.error = `Passport ${missing_side} page was not uploaded and the ${present_side} page alone could not be read: ${passport_result.error}`;
+    }
+
+    // Publish completion status
+    await publish_progress(channel, {
+      order_id,
+      traveller_id,
+      traveller_name,
+      document_id,
+      document_type: 'passport',
+      status: passport_result.status === 'success' ? 'mapped' : incomplete ? 'incomplete' : 'failed',
+      extracted_data: passport_result.data,
+      ...(passport_result.status === 'success' ? { needs_review: passport_result.needs_review ?? false } : {}),
+      reclassified_from,
+      missing_side,
+      error: passport_result.error,
+      error_code: passport_result.error_code,
+      retryable: passport_result.retryable,
+    });
+
+    const passport_job_update = {
+      state: incomplete ? 'incomplete' as const : job_state_from_result(passport_result.status),
+      result: passport_result,
+      error: passport_result.error,
+      error_code: passport_result.error_code,
+      retryable: passport_result.retryable,
+    };
+    for (const doc of pages) {
+      await update_document_job(order_id, doc.document_id, { ...passport_job_update, processed_as: doc.document_type });
+    }
+
+    // Update main backend with passport OCR results
+    await update_main_backend_with_passport(
+      order_id,
+      traveller_id,
+      front?.document_id,
+      back?.document_id,
+      passport_result,
+      incomplete
+    );
+  } catch (error) {
+    logger.error(`Failed to process passport for traveller ${traveller_id}:`, error);
+    const failure = to_result_error(error);
+    await publish_progress(channel, {
+      order_id,
+      traveller_id,
+      traveller_name,
+      document_id,
+      document_type: 'passport',
+      status: 'failed',
+      missing_side,
+      ...failure,
+    });
+    for (const doc of pages) {
+      await update_document_job(order_id, doc.document_id, { state: 'failed', ...failure });
+    }
+  }
+}
+
+/**
+ * Extract a flight document from its classified text, map it to its passengers, publish progress and update main backend
+ */
+async function process_flight_document(
+  order_id: string,
+  channel: string,
+  flight_doc: ReadDocument,
+  all_travellers: TravellerInfo[],
+  reference_date: Date
+): Promise<void> {
+  try {
+    // Extract from the text read while classifying; the processing status was published then
+    const flight_result = {
+      ...extract_flight_result(flight_doc.document_text, reference_date),
+      ...(flight_doc.reclassified_from ? { reclassified_from: flight_doc.reclassified_from } : {}),
+    };
+
+    if (flight_result.status === 'success' && flight_result.data) {
+      // Map every passenger on the ticket to a traveller
+      const passengers = flight_result.data.passengers || [];
+      const { matched, unresolved } = assign_ticket_travellers(passengers.map(p => p.name), all_travellers);
+
+      // Publish completion status for each mapped traveller
+      for (const assignment of matched) {
+        await publish_progress(channel, {
+          order_id,
+          traveller_id: assignment.traveller_id,
+          traveller_name: assignment.traveller_name,
+          document_id: flight_doc.document_id,
+          document_type: 'flight',
+          status: 'mapped',
+          extracted_data: flight_result.data,
+          needs_review: flight_result.needs_review ?? false,
+          reclassified_from: flight_doc.reclassified_from,
+          matched_passenger: passengers.find(p => p.name === assignment.mapping.extracted_name),
+          mapping: assignment.mapping,
+        });
+      }
+      await update_document_job(order_id, flight_doc.document_id, {
+        state: unresolved.length > 0 ? 'needs_assignment' : 'completed',
+        result: flight_result,
+        processed_as: 'flight',
+        mapped_traveller_id: matched[0]?.traveller_id,
+        mapped_traveller_ids: matched.map(a => a.traveller_id),
+        mapping: [...matched.map(a => a.mapping), ...unresolved],
+      });
+
+      // Update main backend with flight OCR results for each mapped traveller
+      for (const assignment of matched) {
+        await update_main_backend_with_ticket(
+          order_id,
+          assignment.traveller_id,
+          flight_doc.document_id,
+          'flight',
+          flight_result,
+          passengers.find(p => p.name === assignment.mapping.extracted_name),
+          assignment.mapping
+        );
+      }
+
+      // Passengers that match nobody, or several travellers equally well, are left for the main backend
+      if (unresolved.length > 0) {
+        await publish_needs_assignment(order_id, channel, flight_doc, 'flight', flight_result, unresolved);
+      }
+    } else {
+      await publish_progress(channel, {
+        order_id,
+        traveller_id: flight_doc.traveller_id,
+        traveller_name: flight_doc.traveller_name,
+        document_id: flight_doc.document_id,
+        document_type: 'flight',
+        status: 'failed',
+        reclassified_from: flight_doc.reclassified_from,
+        error: flight_result.error,
+        error_code: flight_result.error_code,
+        retryable: flight_result.retryable,
+      });
+      await update_document_job(order_id, flight_doc.document_id, {
+        state: job_state_from_result(flight_result.status),
+        result: flight_result,
+        error: flight_result.error,
+        error_code: flight_result.error_code,
+        retryable: flight_result.retryable,
+      });
+    }
+  } catch (error) {
+    logger.error(`Failed to process flight ticket for document ${flight_doc.document_id}:`, error);
+    const failure = to_result_error(error);
+    await publish_progress(channel, {
+      order_id,
+      traveller_id: flight_doc.traveller_id,
+      traveller_name: flight_doc.traveller_name,
+      document_id: flight_doc.document_id,
+      document_type: 'flight',
+      status: 'failed',
+      ...failure,
+    });
+    await update_document_job(order_id, flight_doc.document_id, { state: 'failed', ...failure });
+  }
+}
+
+/**
+ * Resolve the travellers a ticket belongs to from the names printed on it
+ * Names that match nobody, or several travellers equally well, come back unresolved rather than
+ * falling back to the traveller the ticket was uploaded for
+ */
+function assign_ticket_travellers(
+  names: string[],
+  all_travellers: TravellerInfo[]
+): {
+  matched: Array<{ traveller_id: string; traveller_name: string; mapping: MappingDecision }>;
+  unresolved: MappingDecision[];
+} {
+  const decisions = map_ticket_to_passengers(names, all_travellers);
+
+  const matched = decisions
+    .filter(decision => decision.status === 'matched')
+    .map(decision => ({
+      traveller_id: decision.traveller_id!,
+      traveller_name: decision.candidates.find(c => c.traveller_id === decision.traveller_id)!.traveller_name,
+      mapping: decision,
+    }));
+
+  return { matched, unresolved: decisions.filter(decision => decision.status !== 'matched') };
+}
+
+/**
+ * Report a document whose names could not all be mapped, against the traveller it was uploaded for,
+ * so the main backend can assign it
+ */
+async function publish_needs_assignment(
+  order_id: string,
+  channel: string,
+  doc: RoutedDocument,
+  document_type: 'flight' | 'hotel' | TravelDocumentType,
+  result: any,
+  unresolved: MappingDecision[]
+): Promise<void> {
+  await publish_progress(channel, {
+    order_id,
+    traveller_id: doc.traveller_id,
+    traveller_name: doc.traveller_name,
+    document_id: doc.document_id,
+    document_type,
+    status: 'needs_assignment',
+    extracted_data: result.data,
+    needs_review: result.needs_review ?? false,
+    reclassified_from: doc.reclassified_from,
+    unresolved_names: unresolved,
+  });
+
+  const delivery = await deliver_webhook(order_id, {
+    traveller_id: doc.traveller_id,
+    ticket_type: document_type,
+    document_id: doc.document_id,
+    ocr_status: 'NEEDS_ASSIGNMENT',
+    ocr_extracted_data: result,
+    needs_review: result.needs_review ?? false,
+    unresolved_names: unresolved,
+  });
+
+  if (delivery.delivered) {
+    logger.info(`Updated main backend with unassigned ${document_type} ${doc.document_id}`);
+  } else {
+    logger.warn(`Failed to update main backend with unassigned ${document_type}: ${delivery.error}`);
+  }
+}
+
+/**
+ * Extract a hotel document from its classified text, map it to its guests, publish progress and update main backend
+ */
+async function process_hotel_document(
+  order_id: string,
+  channel: string,
+  hotel_doc: ReadDocument,
+  all_travellers: TravellerInfo[],
+  reference_date: Date
+): Promise<void> {
+  try {
+    // Extract from the text read while classifying; the processing status was published then
+    const hotel_result = {
+      ...extract_hotel_result(hotel_doc.document_text, reference_date),
+      ...(hotel_doc.reclassified_from ? { reclassified_from: hotel_doc.reclassified_from } : {}),
+    };
+
+    if (hotel_result.status === 'success' && hotel_result.data) {
+      // Map every guest on the booking to a traveller
+      const { matched, unresolved } = assign_ticket_travellers(hotel_result.data.guests || [], all_travellers);
+
+      // Publish completion status for each mapped traveller
+      for (const assignment of matched) {
+        await publish_progress(channel, {
+          order_id,
+          traveller_id: assignment.traveller_id,
+          traveller_name: assignment.traveller_name,
+          document_id: hotel_doc.document_id,
+          document_type: 'hotel',
+          status: 'mapped',
+          extracted_data: hotel_result.data,
+          needs_review: hotel_result.needs_review ?? false,
+          reclassified_from: hotel_doc.reclassified_from,
+          matched_passenger: { name: assignment.mapping.extracted_name! },
+          mapping: assignment.mapping,
+        });
+      }
+      await update_document_job(order_id, hotel_doc.document_id, {
+        state: unresolved.length > 0 ? 'needs_assignment' : 'completed',
+        result: hotel_result,
+        processed_as: 'hotel',
+        mapped_traveller_id: matched[0]?.traveller_id,
+        mapped_traveller_ids: matched.map(a => a.traveller_id),
+        mapping: [...matched.map(a => a.mapping), ...unresolved],
+      });
+
+      // Update main backend with hotel OCR results for each mapped traveller
+      for (const assignment of matched) {
+        await update_main_backend_with_ticket(
+          order_id,
+          assignment.traveller_id,
+          hotel_doc.document_id,
+          'hotel',
+          hotel_result,
+          { name: assignment.mapping.extracted_name! },
+          assignment.mapping
+        );
+      }
+
+      // Guests that match nobody, or several travellers equally well, are left for the main backend
+      if (unresolved.length > 0) {
+        await publish_needs_assignment(order_id, channel, hotel_doc, 'hotel', hotel_result, unresolved);
+      }
+    } else {
+      await publish_progress(channel, {
+        order_id,
+        traveller_id: hotel_doc.traveller_id,
+        traveller_name: hotel_doc.traveller_name,
+        document_id: hotel_doc.document_id,
+        document_type: 'hotel',
+        status: 'failed',
+        reclassified_from: hotel_doc.reclassified_from,
+        error: hotel_result.error,
+        error_code: hotel_result.error_code,
+        retryable: hotel_result.retryable,
+      });
+      await update_document_job(order_id, hotel_doc.document_id, {
+        state: job_state_from_result(hotel_result.status),
+        result: hotel_result,
+        error: hotel_result.error,
+        error_code: hotel_result.error_code,
+        retryable: hotel_result.retryable,
+      });
+    }
+  } catch (error) {
+    logger.error(`Failed to process hotel ticket for document ${hotel_doc.document_id}:`, error);
+    const failure = to_result_error(error);
+    await publish_progress(channel, {
+      order_id,
+      traveller_id: hotel_doc.traveller_id,
+      traveller_name: hotel_doc.traveller_name,
+      document_id: hotel_doc.document_id,
+      document_type: 'hotel',
+      status: 'failed',
+      ...failure,
+    });
+    await update_document_job(order_id, hotel_doc.document_id, { state: 'failed', ...failure });
+  }
+}
+
+/**
+ * Extract a visa, insurance certificate or national ID from its classified text, map it to the travellers named on it,
+ * publish progress and update main backend
+ */
+async function process_travel_document(
+  order_id: string,
+  channel: string,
+  doc: ReadDocument,
+  document_type: TravelDocumentType,
+  all_travellers: TravellerInfo[],
+  reference_date: Date
+): Promise<void> {
+  const extractor = TRAVEL_DOCUMENT_EXTRACTORS[document_type];
+
+  try {
+    // Extract from the text read while classifying; the processing status was published then
+    const result: TravelDocumentResult = {
+      ...extractor.extract(doc.document_text, reference_date),
+      ...(doc.reclassified_from ? { reclassified_from: doc.reclassified_from } : {}),
+    };
+
+    if (result.status === 'success' && result.data) {
+      // Map every person named on the document to a traveller
+      const { matched, unresolved } = assign_ticket_travellers(extractor.names(result.data), all_travellers);
+
+      // Publish completion status for each mapped traveller
+      for (const assignment of matched) {
+        await publish_progress(channel, {
+          order_id,
+          traveller_id: assignment.traveller_id,
+          traveller_name: assignment.traveller_name,
+          document_id: doc.document_id,
+          document_type,
+          status: 'mapped',
+          extracted_data: result.data,
+          needs_review: result.needs_review ?? false,
+          reclassified_from: doc.reclassified_from,
+          matched_passenger: { name: assignment.mapping.extracted_name! },
+          mapping: assignment.mapping,
+        });
+      }
+      await update_document_job(order_id, doc.document_id, {
+        state: unresolved.length > 0 ? 'needs_assignment' : 'completed',
+        result,
+        processed_as: document_type,
+        mapped_traveller_id: matched[0]?.traveller_id,
+        mapped_traveller_ids: matched.map(a => a.traveller_id),
+        mapping: [...matched.map(a => a.mapping), ...unresolved],
+      });
+
+      // Update main backend with the OCR results for each mapped traveller
+      for (const assignment of matched) {
+        await update_main_backend_with_ticket(
+          order_id,
+          assignment.traveller_id,
+          doc.document_id,
+          document_type,
+          result,
+          { name: assignment.mapping.extracted_name! },
+          assignment.mapping
+        );
+      }
+
+      // Names that match nobody, or several travellers equally well, are left for the main backend
+      if (unresolved.length > 0) {
+        await publish_needs_assignment(order_id, channel, doc, document_type, result, unresolved);
+      }
+    } else {
+      await publish_progress(channel, {
+        order_id,
+        traveller_id: doc.traveller_id,
+        traveller_name: doc.traveller_name,
+        document_id: doc.document_id,
+        document_type,
+        status: 'failed',
+        reclassified_from: doc.reclassified_from,
+        error: result.error,
+        error_code: result.error_code,
+        retryable: result.retryable,
+      });
+      await update_document_job(order_id, doc.document_id, {
+        state: job_state_from_result(result.status),
+        result,
+        error: result.error,
+        error_code: result.error_code,
+        retryable: result.retryable,
+      });
+    }
+  } catch (error) {
+    logger.error(`Failed to process ${document_type} for document ${doc.document_id}:`, error);
+    const failure = to_result_error(error);
+    await publish_progress(channel, {
+      order_id,
+      traveller_id: doc.traveller_id,
+      traveller_name: doc.traveller_name,
+      document_id: doc.document_id,
+      document_type,
+      status: 'failed',
+      ...failure,
+    });
+    await update_document_job(order_id, doc.document_id, { state: 'failed', ...failure });
+  }
+}
+
+/**
+ * Re-map an extracted single-file document to a traveller chosen by the main backend, without running OCR again
+ * passenger_name picks which name on the document the traveller is; without it the whole document goes to
+ * the traveller. Publishes the mapped event and webhook, and returns the updated job
+ */
+export async function assign_document(
+  job: DocumentJob,
+  traveller: TravellerInfo,
+  passenger_name?: string
+): Promise<DocumentJob | null> {
+  const { order_id, document_id } = job;
+  const channel = `${env.redis.ocr_progress_channel}:${order_id}`;
+  const document_type = (job.processed_as || job.document_type) as 'flight' | 'hotel' | TravelDocumentType;
+  const result = job.result;
+
+  const mapping: MappingDecision = {
+    status: 'matched',
+    ...(passenger_name ? { extracted_name: passenger_name } : {}),
+    traveller_id: traveller.traveller_id,
+    candidates: [],
+    manual: true,
+  };
+
+  // The chosen name replaces its own decision; other names on the document keep theirs
+  const decisions = passenger_name
+    ? [...(job.mapping || []).filter(decision => decision.extracted_name !== passenger_name), mapping]
+    : [mapping];
+  const mapped_traveller_ids = [...new Set(
+    decisions.filter(decision => decision.status === 'matched').map(decision => decision.traveller_id!)
+  )];
+
+  const updated = await assign_document_job(order_id, document_id, {
+    state: decisions.some(decision => decision.status !== 'matched') ? 'needs_assignment' : 'completed',
+    mapped_traveller_ids,
+    mapping: decisions,
+  });
+  if (!updated) {
+    return null;
+  }
+  logger.info(`Assigned ${document_type} ${document_id} to traveller ${traveller.traveller_id}`);
+
+  const matched_passenger: FlightPassenger | undefined = passenger_name
+    ? (result.data?.passengers || []).find((p: FlightPassenger) => p.name === passenger_name) || { name: passenger_name }
+    : undefined;
+
+  await publish_progress(channel, {
+    order_id,
+    traveller_id: traveller.traveller_id,
+    traveller_name: traveller.traveller_name,
+    document_id,
+    document_type,
+    status: 'mapped',
+    extracted_data: result.data,
+    needs_review: result.needs_review ?? false,
+    reclassified_from: result.reclassified_from,
+    matched_passenger,
+    mapping,
+  });
+
+  await update_main_backend_with_ticket(order_id, traveller.traveller_id, document_id, document_type, result, matched_passenger, mapping);
+
+  return updated;
+}
+
+/**
+ * Build the cross-document validation report for every traveller with a successful result anywhere in the order,
+ * publish it as a validation_report event and send it to main backend
+ * A failure here is logged and does not fail the order
+ */
+async function publish_validation_reports(order_id: string, channel: string): Promise<void> {
+  try {
+    const reports = build_validation_reports(await stored_traveller_results(order_id));
+
+    for (const report of reports) {
+      const message = JSON.stringify({
+        order_id,
+        traveller_id: report.traveller_id,
+        traveller_name: report.traveller_name,
+        document_type: 'validation_report',
+        status: report.status,
+        checked: report.checked,
+        findings: report.findings,
+        timestamp: new Date().toISOString(),
+      });
+      await publish_to_redis(channel, message);
+      logger.info(`Validation for traveller ${report.traveller_id}: ${report.status} (${report.findings.length} findings)`);
+
+      await update_main_backend_with_validation(order_id, report);
+    }
+  } catch (error) {
+    logger.error(`Failed to validate documents for order ${order_id}:`, error);
+  }
+}
+
+/**
+ * Update main backend with a traveller's cross-document validation report
+ */
+async function update_main_backend_with_validation(order_id: string, report: ValidationReport): Promise<void> {
+  const result = await deliver_webhook(order_id, {
+    traveller_id: report.traveller_id,
+    ticket_type: 'validation_report',
+    validation_report: report,
+  });
+
+  if (result.delivered) {
+    logger.info(`Updated main backend with validation report for traveller ${report.traveller_id}`);
+  } else {
+    logger.warn(`Failed to update main backend with validation report: ${result.error}`);
+  }
+}
+
+/**
+ * Error code and retryable flag at the top of a webhook for a result that did not succeed
+ */
+function webhook_error(result: { status: string } & ResultError): { error_code?: ErrorCode; retryable?: boolean } {
+  if (result.status === 'success' || !result.error_code) return {};
+  return { error_code: result.error_code, retryable: result.retryable };
+}
+
+/**
+ * Update main backend with passport OCR results
+ */
+async function update_main_backend_with_passport(
+  order_id: string,
+  traveller_id: string,
+  passport_front_doc_id: string | undefined,
+  passport_back_doc_id: string | undefined,
+  passport_result: any,
+  incomplete: boolean = false
+): Promise<void> {
+  let ocr_status = passport_result.status === 'success' ? 'COMPLETED' : 'FAILED';
+  if (incomplete) {
+    ocr_status = 'INCOMPLETE';
+  }
+
+  const result = await deliver_webhook(order_id, {
+    traveller_id,
+    ticket_type: 'passport',
+    passport_front_doc_id,
+    passport_back_doc_id,
+    ocr_status,
+    ocr_extracted_data: passport_result,
+    needs_review: passport_result.needs_review ?? false,
+    ...(passport_result.missing_side ? { missing_side: passport_result.missing_side } : {}),
+    ...webhook_error(passport_result),
+  });
+
+  if (result.delivered) {
+    logger.info(`Updated main backend with passport OCR for traveller ${traveller_id}`);
+  } else {
+    logger.warn(`Failed to update main backend with passport: ${result.error}`);
+  }
+}
+
+/**
+ * Update main backend with single-file document (flight, hotel, visa, insurance, national ID) OCR results
+ */
+async function update_main_backend_with_ticket(
+  order_id: string,
+  traveller_id: string,
+  document_id: string,
+  ticket_type: 'flight' | 'hotel' | TravelDocumentType,
+  ticket_result: any,
+  matched_passenger?: FlightPassenger,
+  mapping?: MappingDecision
+): Promise<void> {
+  const result = await deliver_webhook(order_id, {
+    traveller_id,
+    ticket_type,
+    document_id,
+    ocr_status: ticket_result.status === 'success' ? 'COMPLETED' : 'FAILED',
+    ocr_extracted_data: ticket_result,
+    needs_review: ticket_result.needs_review ?? false,
+    mapped_to_traveller_id: traveller_id,
+    ...(matched_passenger ? { matched_passenger } : {}),
+    ...(mapping ? { mapping } : {}),
+    ...webhook_error(ticket_result),
+  });
+
+  if (result.delivered) {
+    logger.info(`Updated main backend with ${ticket_type} OCR for traveller ${traveller_id}`);
+  } else {
+    logger.warn(`Failed to update main backend with ${ticket_type}: ${result.error}`);
+  }
+}
+
+/**
+ * Publish progress update to Redis
+ */
+async function publish_progress(
+  channel: string,
+  data: {
+    order_id: string;
+    traveller_id: string;
+    traveller_name: string;
+    document_id: string;
+    document_type: string;
+    status: string;
+    extracted_data?: any;
+    matched_passenger?: FlightPassenger;
+    mapping?: MappingDecision; // How the name on the document was matched to this traveller
+    unresolved_names?: MappingDecision[]; // needs_assignment: names that matched nobody or several travellers
+    needs_review?: boolean; // Some extracted field is below CONFIDENCE_REVIEW_THRESHOLD
+    reclassified_from?: string; // Declared document_type when the classifier routed the document elsewhere
+    missing_side?: 'front' | 'back'; // Passport uploaded with only one page
+    error?: string;
+    error_code?: ErrorCode;
+    retryable?: boolean;
+  }
+): Promise<void> {
+  const message = JSON.stringify({
+    ...data,
+    timestamp: new Date().toISOString(),
+  });
+
+  await publish_to_redis(channel, message);
+  logger.debug(`Published progress to ${channel}: ${data.document_type} ${data.status} for ${data.traveller_name}`);
+}
+
+export default {
+  process_documents_async,
+  assign_document,
+};
@@ -0,0 +1,155 @@
+import { v4 as uuidv4 } from 'uuid';
+import { get_redis_client } from '../config/redis.js';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+import type { DocumentPayload } from './processing.service.js';
+import type { TravellerInfo } from './mapping.service.js';
+
+export interface QueueJob {
+  id: string;
+  order_id: string;
+  documents: DocumentPayload[];
+  travel_date?: string; // From the order; resolves ticket dates printed without a year
+  travellers?: TravellerInfo[]; // Everyone in the order, when documents are only some of its documents (reprocessing)
+  enqueued_at: string;
+}
+
+export interface ReservedJob {
+  job: QueueJob;
+  raw: string;
+  deliveries: number;
+}
+
+/*
+ * Reliable queue layout:
+ *   {name}            - pending list (LPUSH in, RPOPLPUSH out)
+ *   {name}:processing - jobs currently held by a worker
+ *   {name}:leases     - sorted set of processing jobs scored by lease deadline
+ *   {name}:deliveries - hash of job id -> delivery count
+ * A worker that dies stops renewing its lease; expired jobs are moved back to pending.
+ */
+const keys = () => ({
+  pending: env.queue.name,
+  processing: `${env.queue.name}:processing`,
+  leases: `${env.queue.name}:leases`,
+  deliveries: `${env.queue.name}:deliveries`,
+});
+
+// Atomically move next pending job to processing and lease it
+const RESERVE_SCRIPT = `
+local raw = redis.call('RPOPLPUSH', KEYS[1], KEYS[2])
+if not raw then return nil end
+redis.call('ZADD', KEYS[3], ARGV[1], raw)
+local id = cjson.decode(raw)['id']
+local deliveries = redis.call('HINCRBY', KEYS[4], id, 1)
+return {raw, deliveries}
+`;
+
+// Move processing jobs with expired leases back to the front of pending
+const REQUEUE_EXPIRED_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[3], '-inf', ARGV[1])
+local count = 0
+for _, raw in ipairs(expired) do
+  redis.call('ZREM', KEYS[3], raw)
+  if redis.call('LREM', KEYS[2], 1, raw) > 0 then
+    redis.call('RPUSH', KEYS[1], raw)
+    count = count + 1
+  end
+end
+return count
+`;
+
+/**
+ * Enqueue an order's documents for processing by a worker
+ */
+export async function enqueue_order(
+  order_id: string,
+  documents: DocumentPayload[],
+  travel_date?: string,
+  travellers?: TravellerInfo[]
+): Promise<QueueJob> {
+  const job: QueueJob = {
+    id: uuidv4(),
+    order_id,
+    documents,
+    ...(travel_date ? { travel_date } : {}),
+    ...(travellers ? { travellers } : {}),
+    enqueued_at: new Date().toISOString(),
+  };
+
+  await get_redis_client().lpush(keys().pending, JSON.stringify(job));
+  logger.info(`Enqueued order ${order_id} with ${documents.length} documents (job ${job.id})`);
+
+  return job;
+}
+
+/**
+ * Reserve the next pending job, or null if the queue is empty
+ */
+export async function reserve_job(): Promise<ReservedJob | null> {
+  const k = keys();
+  const result = await get_redis_client().eval(
+    RESERVE_SCRIPT,
+    4,
+    k.pending,
+    k.processing,
+    k.leases,
+    k.deliveries,
+    Date.now() + env.queue.lease_ms
+  );
+
+  if (!result) {
+    return null;
+  }
+
+  const [raw, deliveries] = result as [string, number];
+  return {
+    job: JSON.parse(raw) as QueueJob,
+    raw,
+    deliveries: Number(deliveries),
+  };
+}
+
+/**
+ * Extend the lease on a job that is still being processed
+ */
+export async function renew_lease(reserved: ReservedJob): Promise<void> {
+  await get_redis_client().zadd(keys().leases, 'XX', Date.now() + env.queue.lease_ms, reserved.raw);
+}
+
+/**
+ * Acknowledge a finished job and remove it from the queue
+ */
+export async function ack_job(reserved: ReservedJob): Promise<void> {
+  const k = keys();
+  await get_redis_client()
+    .multi()
+    .lrem(k.processing, 1, reserved.raw)
+    .zrem(k.leases, reserved.raw)
+    .hdel(k.deliveries, reserved.job.id)
+    .exec();
+}
+
+/**
+ * Return jobs whose worker stopped renewing the lease (crashed or hung) to the queue
+ */
+export async function requeue_expired_jobs(): Promise<number> {
+  const k = keys();
+  const count = Number(
+    await get_redis_client().eval(REQUEUE_EXPIRED_SCRIPT, 3, k.pending, k.processing, k.leases, Date.now())
+  );
+
+  if (count > 0) {
+    logger.warn(`Requeued ${count} job(s) with expired leases`);
+  }
+
+  return count;
+}
+
+export default {
+  enqueue_order,
+  reserve_job,
+  renew_lease,
+  ack_job,
+  requeue_expired_jobs,
+};
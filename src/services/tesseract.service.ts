@@ -0,0 +1,188 @@
+import { createWorker, type Worker, type WorkerParams, type Page } from 'tesseract.js';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { ServiceError } from '../utils/errors.js';
+
+interface PooledWorker {
+  worker: Worker;
+  jobs: number;
+}
+
+interface Waiter {
+  resolve: (pooled: PooledWorker) => void;
+  reject: (error: Error) => void;
+}
+
+// Parameters reset before every job so one caller's settings never leak into another's
+const DEFAULT_PARAMETERS: Partial<WorkerParams> = {
+  tessedit_char_whitelist: '',
+};
+
+const idle_workers: PooledWorker[] = [];
+const waiters: Waiter[] = [];
+let worker_count = 0; // Workers alive or being created
+let shutting_down = false;
+
+async function create_pooled_worker(): Promise<PooledWorker> {
+  const worker = await createWorker(env.tesseract.language, 1, {
+    logger: () => {
+      // Suppress verbose logging
+    },
+  });
+  return { worker, jobs: 0 };
+}
+
+/**
+ * Take an idle worker, create one if under the pool size, or wait for one to be released
+ * Aborting `signal` while waiting gives up the place in the queue
+ */
+async function acquire_worker(signal?: AbortSignal): Promise<PooledWorker> {
+  signal?.throwIfAborted();
+  if (shutting_down) {
+    throw new ServiceError('SERVICE_SHUTTING_DOWN', 'Tesseract worker pool is shutting down');
+  }
+
+  const idle = idle_workers.pop();
+  if (idle) {
+    return idle;
+  }
+
+  if (worker_count < env.tesseract.pool_size) {
+    worker_count++;
+    try {
+      return await create_pooled_worker();
+    } catch (error) {
+      worker_count--;
+      throw error;
+    }
+  }
+
+  return new Promise<PooledWorker>((resolve, reject) => {
+    const on_abort = () => {
+      const index = waiters.indexOf(waiter);
+      if (index !== -1) waiters.splice(index, 1);
+      reject(signal!.reason);
+    };
+    const waiter: Waiter = {
+      resolve: pooled => {
+        signal?.removeEventListener('abort', on_abort);
+        resolve(pooled);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', on_abort);
+        reject(error);
+      },
+    };
+    waiters.push(waiter);
+    signal?.addEventListener('abort', on_abort, { once: true });
+  });
+}
+
+/**
+ * Hand a worker to the next waiter or back to the idle list
+ * Workers that reached max_jobs_per_worker are terminated and replaced
+ */
+function release_worker(pooled: PooledWorker): void {
+  if (shutting_down || pooled.jobs >= env.tesseract.max_jobs_per_worker) {
+    worker_count--;
+    pooled.worker.terminate().catch((error: Error) => {
+      logger.warn('Failed to terminate Tesseract worker:', error.message);
+    });
+
+    if (!shutting_down) {
+      logger.debug(`Recycling Tesseract worker after ${pooled.jobs} jobs`);
+      const waiter = waiters.shift();
+      if (waiter) {
+        worker_count++;
+        create_pooled_worker()
+          .then(waiter.resolve)
+          .catch((error: Error) => {
+            worker_count--;
+            waiter.reject(error);
+          });
+      }
+    }
+    return;
+  }
+
+  const waiter = waiters.shift();
+  if (waiter) {
+    waiter.resolve(pooled);
+  } else {
+    idle_workers.push(pooled);
+  }
+}
+
+/**
+ * Run OCR on an image using a pooled worker
+ * Once started, recognition runs to the end; `signal` is checked before it starts
+ */
+export async function recognize_image(
+  image: Buffer,
+  parameters: Partial<WorkerParams> = {},
+  signal?: AbortSignal
+): Promise<Page> {
+  const pooled = await acquire_worker(signal);
+
+  try {
+    signal?.throwIfAborted();
+    await pooled.worker.setParameters({ ...DEFAULT_PARAMETERS, ...parameters });
+    const { data } = await pooled.worker.recognize(image);
+    return data;
+  } finally {
+    pooled.jobs++;
+    release_worker(pooled);
+  }
+}
+
+/**
+ * Create all pool workers up front so the language model is loaded before the first job
+ */
+export async function warm_up_tesseract_pool(): Promise<void> {
+  const to_create = env.tesseract.pool_size - worker_count;
+  if (to_create <= 0) {
+    return;
+  }
+
+  const started_at = Date.now();
+  worker_count += to_create;
+
+  const results = await Promise.allSettled(
+    Array.from({ length: to_create }, () => create_pooled_worker())
+  );
+
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      release_worker(result.value);
+    } else {
+      worker_count--;
+      logger.error('Failed to warm up Tesseract worker:', result.reason);
+    }
+  }
+
+  logger.info(`Tesseract worker pool ready with ${worker_count} worker(s) in ${Date.now() - started_at}ms`);
+}
+
+/**
+ * Terminate idle workers and stop handing out new ones
+ * Busy workers are terminated as soon as their current job finishes
+ */
+export async function shutdown_tesseract_pool(): Promise<void> {
+  shutting_down = true;
+
+  for (const waiter of waiters.splice(0)) {
+    waiter.reject(new ServiceError('SERVICE_SHUTTING_DOWN', 'Tesseract worker pool is shutting down'));
+  }
+
+  const idle = idle_workers.splice(0);
+  worker_count -= idle.length;
+  await Promise.allSettled(idle.map(pooled => pooled.worker.terminate()));
+
+  logger.info('Tesseract worker pool shut down');
+}
+
+export default {
+  recognize_image,
+  warm_up_tesseract_pool,
+  shutdown_tesseract_pool,
+};
@@ -0,0 +1,248 @@
+import { env } from '../config/env.js';
+import { fuzzy_match_name, NAME_MATCH_THRESHOLD } from './mapping.service.js';
+import type { PassportOCRResult } from './passport.service.js';
+import type { FlightOCRResult } from './flight.service.js';
+import type { HotelOCRResult } from './hotel.service.js';
+
+export type ValidationCode = 'name_mismatch' | 'passport_expiry' | 'check_in_mismatch' | 'duplicate_pnr';
+
+export interface ValidationFinding {
+  code: ValidationCode;
+  severity: 'error' | 'warning';
+  message: string;
+  document_ids: string[]; // Documents the finding is about
+  details?: Record<string, any>;
+}
+
+export interface ValidationReport {
+  traveller_id: string;
+  traveller_name: string;
+  status: 'passed' | 'warnings' | 'failed'; // failed if any finding is an error
+  checked: { passport: boolean; flights: number; hotels: number };
+  findings: ValidationFinding[];
+}
+
+// Successfully extracted documents mapped to one traveller
+export interface TravellerResults {
+  traveller_id: string;
+  traveller_name: string;
+  passport?: { document_ids: string[]; data: NonNullable<PassportOCRResult['data']> };
+  flights: Array<{ document_id: string; data: NonNullable<FlightOCRResult['data']>; matched_name?: string }>;
+  hotels: Array<{ document_id: string; data: NonNullable<HotelOCRResult['data']>; matched_name?: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parse_iso_date(value: string | undefined): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function add_months(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+/**
+ * Best similarity between the passport name and the names on a ticket for this traveller
+ * The name the ticket was mapped on is used when known, otherwise every name on the ticket
+ */
+function ticket_name_score(passport_name: string, names: string[]): { name: string; score: number } | undefined {
+  let best: { name: string; score: number } | undefined;
+  for (const name of names) {
+    const score = fuzzy_match_name(passport_name, name);
+    if (!best || score > best.score) {
+      best = { name, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Passport name against the passenger name on each flight (error) and the guest name on each hotel booking (warning)
+ */
+function check_names(traveller: TravellerResults): ValidationFinding[] {
+  const passport = traveller.passport;
+  if (!passport?.data.full_name) return [];
+  const passport_name = passport.data.full_name;
+
+  const findings: ValidationFinding[] = [];
+  const tickets = [
+    ...traveller.flights.map(flight => ({
+      kind: 'flight' as const,
+      document_id: flight.document_id,
+      names: flight.matched_name ? [flight.matched_name] : (flight.data.passengers || []).map(p => p.name),
+    })),
+    ...traveller.hotels.map(hotel => ({
+      kind: 'hotel' as const,
+      document_id: hotel.document_id,
+      names: hotel.matched_name ? [hotel.matched_name] : hotel.data.guests || [],
+    })),
+  ];
+
+  for (const ticket of tickets) {
+    const best = ticket_name_score(passport_name, ticket.names);
+    if (!best || best.score >= NAME_MATCH_THRESHOLD) continue;
+
+    const label = ticket.kind === 'flight' ? 'passenger' : 'guest';
+    findings.push({
+      code: 'name_mismatch',
+      severity: ticket.kind === 'flight' ? 'error' : 'warning',
+      message: `Passport name "${passport_name}" does not match ${ticket.kind} ${label} name "${best.name}"`,
+      document_ids: [...passport.document_ids, ticket.document_id],
+      details: { passport_name, ticket_name: best.name, score: Math.round(best.score * 100) / 100 },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Passport must still be valid VALIDATION_PASSPORT_MIN_VALIDITY_MONTHS after each flight departs
+ */
+function check_passport_expiry(traveller: TravellerResults): ValidationFinding[] {
+  const passport = traveller.passport;
+  const expiry = parse_iso_date(passport?.data.expiry_date_iso);
+  if (!passport || !expiry) return [];
+
+  const months = env.validation.passport_min_validity_months;
+  const findings: ValidationFinding[] = [];
+
+  for (const flight of traveller.flights) {
+    const departure = parse_iso_date(flight.data.departure_date_iso);
+    if (!departure) continue;
+
+    const required_until = add_months(departure, months);
+    if (expiry >= required_until) continue;
+
+    const message = expiry < departure
+      ? `Passport expires on ${passport.data.expiry_date_iso}, before the flight departs on ${flight.data.departure_date_iso}`
+      : `Passport expires on ${passport.data.expiry_date_iso}, less than ${months} months after the flight departs on ${flight.data.departure_date_iso}`;
+    findings.push({
+      code: 'passport_expiry',
+      severity: 'error',
+      message,
+      document_ids: [...passport.document_ids, flight.document_id],
+      details: {
+        expiry_date: passport.data.expiry_date_iso,
+        departure_date: flight.data.departure_date_iso,
+        required_valid_until: required_until.toISOString().slice(0, 10),
+      },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Each hotel check-in should fall on the day a flight arrives, or up to VALIDATION_CHECK_IN_TOLERANCE_DAYS after
+ */
+function check_hotel_dates(traveller: TravellerResults): ValidationFinding[] {
+  const arrivals = traveller.flights.flatMap(flight =>
+    (flight.data.segments?.length ? flight.data.segments : [flight.data])
+      .map(segment => ({ document_id: flight.document_id, date: segment.arrival_date_iso || segment.departure_date_iso }))
+      .filter((arrival): arrival is { document_id: string; date: string } => parse_iso_date(arrival.date) !== null)
+  );
+  if (arrivals.length === 0) return [];
+
+  const tolerance = env.validation.check_in_tolerance_days;
+  const findings: ValidationFinding[] = [];
+
+  for (const hotel of traveller.hotels) {
+    const check_in = parse_iso_date(hotel.data.check_in_date_iso);
+    if (!check_in) continue;
+
+    const lines_up = arrivals.some(arrival => {
+      const days_after = (check_in.getTime() - parse_iso_date(arrival.date)!.getTime()) / DAY_MS;
+      return days_after >= 0 && days_after <= tolerance;
+    });
+    if (lines_up) continue;
+
+    const arrival_dates = [...new Set(arrivals.map(arrival => arrival.date))];
+    findings.push({
+      code: 'check_in_mismatch',
+      severity: 'warning',
+      message: `Hotel check-in on ${hotel.data.check_in_date_iso} does not follow any flight arrival (${arrival_dates.join(', ')})`,
+      document_ids: [hotel.document_id, ...new Set(arrivals.map(arrival => arrival.document_id))],
+      details: { check_in_date: hotel.data.check_in_date_iso, arrival_dates },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * The same PNR on different flight documents, usually the same booking uploaded for several travellers
+ * Reported to every traveller holding one of those documents
+ */
+function find_duplicate_pnrs(travellers: TravellerResults[]): Map<string, ValidationFinding[]> {
+  const documents_by_pnr = new Map<string, Map<string, string[]>>(); // PNR -> document_id -> traveller_ids
+  for (const traveller of travellers) {
+    for (const flight of traveller.flights) {
+      const pnr = flight.data.pnr?.toUpperCase();
+      if (!pnr) continue;
+      if (!documents_by_pnr.has(pnr)) {
+        documents_by_pnr.set(pnr, new Map());
+      }
+      const documents = documents_by_pnr.get(pnr)!;
+      documents.set(flight.document_id, [...(documents.get(flight.document_id) || []), traveller.traveller_id]);
+    }
+  }
+
+  const findings = new Map<string, ValidationFinding[]>();
+  for (const [pnr, documents] of documents_by_pnr.entries()) {
+    if (documents.size < 2) continue;
+
+    const document_ids = [...documents.keys()];
+    const traveller_ids = [...new Set([...documents.values()].flat())];
+    const finding: ValidationFinding = {
+      code: 'duplicate_pnr',
+      severity: 'warning',
+      message: `PNR ${pnr} appears on ${document_ids.length} flight documents`,
+      document_ids,
+      details: { pnr, traveller_ids },
+    };
+    for (const traveller_id of traveller_ids) {
+      findings.set(traveller_id, [...(findings.get(traveller_id) || []), finding]);
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Cross-check each traveller's passport, flights and hotels against each other
+ */
+export function build_validation_reports(travellers: TravellerResults[]): ValidationReport[] {
+  const duplicate_pnrs = find_duplicate_pnrs(travellers);
+
+  return travellers.map(traveller => {
+    const findings = [
+      ...check_names(traveller),
+      ...check_passport_expiry(traveller),
+      ...check_hotel_dates(traveller),
+      ...(duplicate_pnrs.get(traveller.traveller_id) || []),
+    ];
+
+    let status: ValidationReport['status'] = 'passed';
+    if (findings.some(finding => finding.severity === 'error')) status = 'failed';
+    else if (findings.length > 0) status = 'warnings';
+
+    return {
+      traveller_id: traveller.traveller_id,
+      traveller_name: traveller.traveller_name,
+      status,
+      checked: {
+        passport: traveller.passport !== undefined,
+        flights: traveller.flights.length,
+        hotels: traveller.hotels.length,
+      },
+      findings,
+    };
+  });
+}
+
+export default {
+  build_validation_reports,
+};
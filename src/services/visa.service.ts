@@ -0,0 +1,242 @@
+import logger from '../utils/logger.js';
+import { invalid_document_error, type DocumentTextResult, type TextSource } from './document-text.service.js';
+import { type ResultError } from '../utils/errors.js';
+import { DATE_TEXT, set_normalised_date } from '../utils/date-time.js';
+import { match_field } from '../utils/text-fields.js';
+import { build_confidence_report, type FieldLocation, type PatternTier } from './confidence.service.js';
+
+export interface VisaOCRResult extends ResultError {
+  status: 'success' | 'error' | 'invalid';
+  data?: {
+    holder_name?: string;
+    passport_number?: string;
+    visa_number?: string;
+    visa_type?: string;
+    issuing_country?: string;
+    valid_from?: string;
+    valid_from_iso?: string; // YYYY-MM-DD
+    valid_until?: string;
+    valid_until_iso?: string;
+    entries?: 'single' | 'double' | 'multiple' | number;
+    duration_of_stay_days?: number;
+    unparsed_fields?: string[]; // Date fields that could not be normalised
+    [key: string]: any;
+  };
+  raw_text?: string;
+  file_type?: string;
+  text_source?: TextSource;
+  page_count?: number;
+  preprocessing?: string[];
+  confidence?: Record<string, number>; // Field path -> 0-1
+  locations?: Record<string, FieldLocation>; // Field path -> page and bounding box of its source text
+  needs_review?: boolean;
+  low_confidence_fields?: string[];
+  reclassified_from?: string; // Declared document_type when the classifier routed the document here
+}
+
+// Field path -> value and the pattern tier that produced it, for confidence scoring
+type ConfidenceFields = Record<string, { value: unknown; tier: PatternTier }>;
+
+// Words that mark a visa page or e-visa; also used by the document classifier
+export const VISA_KEYWORDS = [
+  'visa',
+  'entry permit',
+  'entries',
+  'valid from',
+  'valid until',
+  'valid till',
+  'validity',
+  'duration of stay',
+  'length of stay',
+  'immigration',
+  'embassy',
+  'consulate',
+];
+
+/**
+ * Validate if extracted text is a visa
+ */
+function validate_visa(text: string): boolean {
+  const lower_text = text.toLowerCase();
+
+  const found_keywords = VISA_KEYWORDS.filter(keyword => lower_text.includes(keyword));
+
+  // Need at least 3 visa-related keywords to be considered valid
+  return found_keywords.length >= 3;
+}
+
+/**
+ * Normalise a printed number of entries ("Multiple", "MULT", "M", "02") to single/double/multiple or a count
+ */
+function normalise_entries(value: string): 'single' | 'double' | 'multiple' | number | undefined {
+  const lower = value.toLowerCase();
+  if (/^\d+$/.test(lower)) {
+    const count = Number(lower);
+    if (count === 1) return 'single';
+    if (count === 2) return 'double';
+    return count > 0 ? count : undefined;
+  }
+  if (lower.startsWith('s')) return 'single';
+  if (lower.startsWith('d')) return 'double';
+  if (lower.startsWith('m')) return 'multiple';
+  return undefined;
+}
+
+/**
+ * Extract visa information from OCR text
+ * Also returns each field's value and pattern tier for confidence scoring
+ */
+function extract_visa_data(
+  text: string,
+  reference_date?: Date
+): { data: NonNullable<VisaOCRResult['data']>; fields: ConfidenceFields } {
+  const data: NonNullable<VisaOCRResult['data']> = {};
+  const fields: ConfidenceFields = {};
+
+  // Visa number: "Visa No: 123456789", "Entry Permit No 201/2025/1234567"
+  const visa_number = match_field(text, [
+    [/visa\s*(?:no\.?|number|#|grant\s+number)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]{5,24})/i, 'labelled'],
+    [/entry\s+permit\s*(?:no\.?|number)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]{5,24})/i, 'labelled'],
+    [/(?:application|reference)\s*(?:no\.?|number|id)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]{5,24})/i, 'positional'],
+  ]);
+  if (visa_number) {
+    data.visa_number = visa_number.value.toUpperCase();
+    fields.visa_number = { value: data.visa_number, tier: visa_number.tier };
+  }
+
+  // Visa type: "Visa Type: Tourist", "Type of Visa - Business", or "TOURIST VISA" as a heading
+  const visa_type = match_field(text, [
+    [/(?:visa\s+type|type\s+of\s+visa|visa\s+category|category)\s*[:\-]\s*([A-Za-z][A-Za-z0-9 \-]{1,39}?)\s*$/im, 'labelled'],
+    [/\b(tourist|tourism|business|transit|student|work|employment|visit|medical|conference|family|residence)\s+(?:e-?)?visa\b/i, 'structured'],
+  ]);
+  if (visa_type) {
+    data.visa_type = visa_type.value.replace(/\s+/g, ' ');
+    fields.visa_type = { value: data.visa_type, tier: visa_type.tier };
+  }
+
+  // Issuing country: "Issuing Country: United Arab Emirates", "Issued by: Japan"
+  const issuing_country = match_field(text, [
+    [/(?:issuing\s+(?:country|state|post)|issued\s+(?:by|at|in))\s*[:\-]\s*([A-Za-z][A-Za-z .\-]{1,39}?)\s*$/im, 'labelled'],
+  ]);
+  if (issuing_country) {
+    data.issuing_country = issuing_country.value;
+    fields.issuing_country = { value: data.issuing_country, tier: issuing_country.tier };
+  }
+
+  // Validity: a single "Validity: 21/04/2025 to 20/07/2025" line, or separate from/until labels
+  const validity_range = text.match(
+    new RegExp(String.raw`validity\s*(?:period)?\s*[:\-]?\s*(?:from\s+)?(${DATE_TEXT})\s*(?:to|till|until|-|–)\s*(${DATE_TEXT})`, 'i')
+  );
+  if (validity_range) {
+    data.valid_from = validity_range[1].trim();
+    data.valid_until = validity_range[2].trim();
+    fields.valid_from = { value: data.valid_from, tier: 'labelled' };
+    fields.valid_until = { value: data.valid_until, tier: 'labelled' };
+  } else {
+    const valid_from = match_field(text, [
+      [new RegExp(String.raw`(?:valid\s+from|date\s+of\s+issue|issue\s+date|issued\s+on)\s*[:\-]?\s*(${DATE_TEXT})`, 'i'), 'labelled'],
+    ]);
+    if (valid_from) {
+      data.valid_from = valid_from.value;
+      fields.valid_from = { value: data.valid_from, tier: valid_from.tier };
+    }
+
+    const valid_until = match_field(text, [
+      [new RegExp(String.raw`(?:valid\s+(?:until|till|to|up\s*to)|expiry\s+date|date\s+of\s+expiry|expires\s+on|enter\s+before)\s*[:\-]?\s*(${DATE_TEXT})`, 'i'), 'labelled'],
+    ]);
+    if (valid_until) {
+      data.valid_until = valid_until.value;
+      fields.valid_until = { value: data.valid_until, tier: valid_until.tier };
+    }
+  }
+
+  // Entries: "No. of Entries: Multiple", "Entries: 02", or "SINGLE ENTRY" as a heading
+  const entries = match_field(text, [
+    [/(?:no\.?\s+of\s+entries|number\s+of\s+entries|entries|entry\s+type)\s*[:\-]?\s*(single|double|multiple|multi|mult|\d{1,2}|[SDM])\b/i, 'labelled'],
+    [/\b(single|double|multiple)[\s\-]+(?:journey|entry)\b/i, 'structured'],
+  ]);
+  const normalised_entries = entries ? normalise_entries(entries.value) : undefined;
+  if (entries && normalised_entries !== undefined) {
+    data.entries = normalised_entries;
+    fields.entries = { value: entries.value, tier: entries.tier };
+  }
+
+  // Duration of stay: "Duration of Stay: 30 Days"
+  const duration = match_field(text, [
+    [/(?:duration|length|period)\s+of\s+stay\s*[:\-]?\s*(\d{1,3})\s*days?/i, 'labelled'],
+  ]);
+  if (duration) {
+    data.duration_of_stay_days = Number(duration.value);
+    fields.duration_of_stay_days = { value: duration.value, tier: duration.tier };
+  }
+
+  // Holder name and passport number, for mapping the visa to a traveller
+  const holder_name = match_field(text, [
+    [/^\s*(?:full\s+name|name\s+of\s+(?:the\s+)?holder|holder'?s?\s+name|name)\s*[:\-]\s*([A-Za-z][A-Za-z' .\-]{2,59}?)\s*$/im, 'labelled'],
+  ]);
+  if (holder_name) {
+    const name = holder_name.value.replace(/\s+/g, ' ');
+    data.holder_name = name === name.toUpperCase()
+      ? name.toLowerCase().replace(/\b[a-z]/g, char => char.toUpperCase())
+      : name;
+    fields.holder_name = { value: holder_name.value, tier: holder_name.tier };
+  }
+
+  const passport_number = match_field(text, [
+    [/passport\s*(?:no\.?|number|#)\s*[:\-]?\s*([A-Z0-9]{6,9})\b/i, 'labelled'],
+  ]);
+  if (passport_number) {
+    data.passport_number = passport_number.value.toUpperCase();
+    fields.passport_number = { value: data.passport_number, tier: passport_number.tier };
+  }
+
+  // Normalised dates; visa dates always carry a year, the reference date only settles two-digit ones
+  const unparsed: string[] = [];
+  set_normalised_date(data, 'valid_from', unparsed, { reference_date });
+  set_normalised_date(data, 'valid_until', unparsed, { reference_date });
+  if (unparsed.length > 0) {
+    data.unparsed_fields = unparsed;
+  }
+
+  return { data, fields };
+}
+
+/**
+ * Validate and extract a visa from document text that has already been read
+ */
+export function extract_visa_result(document: DocumentTextResult, reference_date?: Date): VisaOCRResult {
+  const { text, words, file_type, text_source, page_count, preprocessing } = document;
+  const source_info = { file_type, text_source, page_count, preprocessing };
+
+  // Validate if it's a visa
+  if (!validate_visa(text)) {
+    logger.warn('Extracted text does not appear to be a valid visa');
+    return {
+      status: 'invalid',
+      ...invalid_document_error(document, 'NOT_A_VISA', 'Text does not contain visa information'),
+      raw_text: text,
+      ...source_info,
+    };
+  }
+
+  // Extract visa data
+  const { data: extracted_data, fields } = extract_visa_data(text, reference_date);
+  const confidence_report = build_confidence_report(fields, words);
+
+  // Ensure we have at least the visa number or validity
+  if (!extracted_data.visa_number && !extracted_data.valid_until) {
+    logger.warn('Could not extract essential visa information');
+  }
+
+  return {
+    status: 'success',
+    data: extracted_data,
+    raw_text: text,
+    ...source_info,
+    ...confidence_report,
+  };
+}
+
+export default {
+  extract_visa_result,
+};
@@ -0,0 +1,212 @@
+import { v4 as uuidv4 } from 'uuid';
+import { get_redis_client } from '../config/redis.js';
+import { env } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { sign_payload } from '../utils/signature.js';
+
+export interface WebhookDeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  status_code?: number;
+  error?: string;
+  dead_letter_id?: string;
+}
+
+export interface DeadLetterRecord {
+  id: string;
+  order_id: string;
+  url: string;
+  payload: Record<string, any>;
+  attempts: number;
+  last_status_code?: number;
+  last_error: string;
+  redelivery_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AttemptResult {
+  ok: boolean;
+  retryable: boolean;
+  status_code?: number;
+  error?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function webhook_url(order_id: string): string {
+  return `${env.main_backend.url}/order/${order_id}/ocr-results`;
+}
+
+/**
+ * Exponential backoff with full jitter, capped at max_delay_ms
+ */
+function backoff_delay(attempt: number): number {
+  const exponential = env.webhook.base_delay_ms * Math.pow(2, attempt - 1);
+  const capped = Math.min(exponential, env.webhook.max_delay_ms);
+  return Math.floor(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * POST a payload once
+ * Network errors, timeouts, 408, 429 and 5xx are retryable; other 4xx are not
+ */
+async function attempt_delivery(url: string, body: string): Promise<AttemptResult> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...sign_payload('POST', url, body), // Re-signed per attempt so the timestamp stays fresh
+      },
+      body,
+      signal: AbortSignal.timeout(env.webhook.timeout_ms),
+    });
+
+    if (response.ok) {
+      return { ok: true, retryable: false, status_code: response.status };
+    }
+
+    const error_text = await response.text().catch(() => '');
+    return {
+      ok: false,
+      retryable: response.status >= 500 || response.status === 408 || response.status === 429,
+      status_code: response.status,
+      error: `${response.status} - ${error_text}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      retryable: true,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * POST a payload, retrying with backoff up to max_attempts
+ */
+async function send_with_retries(url: string, payload: Record<string, any>): Promise<WebhookDeliveryResult> {
+  const body = JSON.stringify(payload);
+  let last: AttemptResult = { ok: false, retryable: true };
+  let attempts = 0;
+
+  while (attempts < env.webhook.max_attempts) {
+    attempts++;
+    last = await attempt_delivery(url, body);
+
+    if (last.ok) {
+      return { delivered: true, attempts, status_code: last.status_code };
+    }
+
+    if (!last.retryable || attempts >= env.webhook.max_attempts) {
+      break;
+    }
+
+    const delay = backoff_delay(attempts);
+    logger.warn(`Webhook attempt ${attempts} to ${url} failed (${last.error}), retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+
+  return {
+    delivered: false,
+    attempts,
+    status_code: last.status_code,
+    error: last.error,
+  };
+}
+
+async function write_dead_letter(record: DeadLetterRecord): Promise<void> {
+  await get_redis_client().hset(env.webhook.dead_letter_key, record.id, JSON.stringify(record));
+}
+
+/**
+ * Deliver OCR results to main backend webhook
+ * Payloads that still fail after all attempts are stored as dead letters
+ */
+export async function deliver_webhook(
+  order_id: string,
+  payload: Record<string, any>
+): Promise<WebhookDeliveryResult> {
+  const url = webhook_url(order_id);
+  const result = await send_with_retries(url, payload);
+
+  if (result.delivered) {
+    return result;
+  }
+
+  logger.error(`Webhook delivery to ${url} failed after ${result.attempts} attempt(s): ${result.error}`);
+
+  try {
+    const now = new Date().toISOString();
+    const record: DeadLetterRecord = {
+      id: uuidv4(),
+      order_id,
+      url,
+      payload,
+      attempts: result.attempts,
+      last_status_code: result.status_code,
+      last_error: result.error || 'Unknown error',
+      redelivery_count: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    await write_dead_letter(record);
+    result.dead_letter_id = record.id;
+    logger.warn(`Stored webhook payload as dead letter ${record.id}`);
+  } catch (error) {
+    logger.error('Failed to store webhook dead letter:', error);
+  }
+
+  return result;
+}
+
+/**
+ * List dead-lettered webhook payloads, newest first
+ */
+export async function list_dead_letters(): Promise<DeadLetterRecord[]> {
+  const raw_records: Record<string, string> = await get_redis_client().hgetall(env.webhook.dead_letter_key);
+  return Object.values(raw_records)
+    .map(raw => JSON.parse(raw) as DeadLetterRecord)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Redeliver a dead-lettered payload
+ * Removed from the store on success; otherwise the record is updated with the new failure
+ * Returns null if no dead letter exists with the given id
+ */
+export async function redeliver_dead_letter(id: string): Promise<WebhookDeliveryResult | null> {
+  const client = get_redis_client();
+  const raw = await client.hget(env.webhook.dead_letter_key, id);
+  if (!raw) {
+    return null;
+  }
+
+  const record = JSON.parse(raw) as DeadLetterRecord;
+  const result = await send_with_retries(record.url, record.payload);
+
+  if (result.delivered) {
+    await client.hdel(env.webhook.dead_letter_key, id);
+    logger.info(`Redelivered dead letter ${id} for order ${record.order_id}`);
+    return result;
+  }
+
+  await write_dead_letter({
+    ...record,
+    attempts: record.attempts + result.attempts,
+    last_status_code: result.status_code,
+    last_error: result.error || 'Unknown error',
+    redelivery_count: record.redelivery_count + 1,
+    updated_at: new Date().toISOString(),
+  });
+  logger.warn(`Redelivery of dead letter ${id} failed: ${result.error}`);
+
+  return { ...result, dead_letter_id: id };
+}
+
+export default {
+  deliver_webhook,
+  list_dead_letters,
+  redeliver_dead_letter,
+};
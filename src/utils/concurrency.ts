@@ -0,0 +1,63 @@
+/**
+ * Create a limiter that runs at most `concurrency` tasks at a time
+ * Tasks beyond the limit wait in FIFO order; `pending()` is how many are waiting
+ */
+export function create_limiter(concurrency: number) {
+  const max_active = Math.max(1, Math.floor(concurrency) || 1);
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= max_active) return;
+    const start = queue.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  const limit = function limit<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+  };
+
+  return Object.assign(limit, { pending: () => queue.length });
+}
+
+/**
+ * Wait for a task at most `ms` milliseconds
+ * On timeout the task's signal is aborted; work that does not check it runs on and its result is dropped
+ */
+export async function with_timeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  ms: number
+): Promise<{ timed_out: false; value: T } | { timed_out: true }> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<{ timed_out: true }>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve({ timed_out: true });
+    }, ms);
+  });
+
+  try {
+    return await Promise.race([task(controller.signal).then(value => ({ timed_out: false as const, value })), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export default {
+  create_limiter,
+  with_timeout,
+};
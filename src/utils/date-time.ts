@@ -0,0 +1,214 @@
+import { env, type NumericDateOrder } from '../config/env.js';
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+};
+
+// Regex source for a printed date, for building labelled patterns ("Valid until: <date>")
+// Matches 2025-04-21, 21/04/2025, 21.04.25, 21 Apr 2025, 21-APR-25, April 21, 2025
+export const DATE_TEXT = String.raw`(?:\d{4}[-\/.]\d{1,2}[-\/.]\d{1,2}|\d{1,2}[-\/.]\d{1,2}[-\/.]\d{2,4}|\d{1,2}(?:st|nd|rd|th)?[\s\-.]*[A-Za-z]{3,9}\.?[\s\-.,]*\d{2,4}|[A-Za-z]{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})`;
+
+export interface DateParseOptions {
+  reference_date?: Date; // Missing and two-digit years resolve to the date nearest this (default: now)
+  past_only?: boolean; // Date cannot be after the reference date (e.g. date of birth)
+  numeric_order?: NumericDateOrder; // Order of "04/05/2025" style dates (default: DATE_NUMERIC_ORDER)
+}
+
+interface DateParts {
+  year?: number;
+  two_digit_year?: boolean;
+  month: number;
+  day: number;
+  weekday?: number;
+}
+
+function month_from_name(name: string): number | undefined {
+  return MONTHS[name.substring(0, 3).toLowerCase()];
+}
+
+function to_iso(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null; // e.g. 31 Apr
+  }
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Split a raw date string into day, month and (possibly missing) year
+ */
+function parse_date_parts(raw: string, numeric_order: NumericDateOrder): DateParts | null {
+  const value = raw.trim().replace(/\s+/g, ' ');
+  const weekday_match = value.match(/\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*\b/i);
+  const weekday = weekday_match ? WEEKDAYS[weekday_match[1].toLowerCase()] : undefined;
+
+  // 2025-04-21, 2025/04/21
+  let match = value.match(/\b(\d{4})[-\/.](\d{1,2})[-\/.](\d{1,2})\b/);
+  if (match) {
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]), weekday };
+  }
+
+  // 21/04/2025, 04-21-25
+  match = value.match(/\b(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{4}|\d{2})\b/);
+  if (match) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    // A component above 12 settles the order; otherwise use the configured locale
+    const day_first = first > 12 || (second <= 12 && numeric_order === 'DMY');
+    return {
+      year: Number(match[3]),
+      two_digit_year: match[3].length === 2,
+      month: day_first ? second : first,
+      day: day_first ? first : second,
+      weekday,
+    };
+  }
+
+  // 21 Apr 2025, 21st April, 21-Apr-25, 21Apr25
+  match = value.match(/\b(\d{1,2})(?:st|nd|rd|th)?[\s\-.]*([A-Za-z]{3,9})\.?(?:,?[\s\-.]*(\d{4}|\d{2})\b(?![:.]\d))?/);
+  if (match && month_from_name(match[2])) {
+    return {
+      year: match[3] ? Number(match[3]) : undefined,
+      two_digit_year: match[3]?.length === 2,
+      month: month_from_name(match[2])!,
+      day: Number(match[1]),
+      weekday,
+    };
+  }
+
+  // Apr 21, 2025 / Mon, Apr 21
+  match = value.match(/\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s*(\d{4})\b)?/);
+  if (match && month_from_name(match[1])) {
+    return {
+      year: match[3] ? Number(match[3]) : undefined,
+      month: month_from_name(match[1])!,
+      day: Number(match[2]),
+      weekday,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Pick the candidate nearest the reference date (not after it when past_only)
+ */
+function nearest_candidate(candidates: string[], reference: Date, past_only: boolean): string | null {
+  const reference_time = Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate());
+  const eligible = candidates.filter(iso => !past_only || Date.parse(iso) <= reference_time);
+
+  let best: string | null = null;
+  let best_distance = Infinity;
+  for (const iso of eligible) {
+    const distance = Math.abs(Date.parse(iso) - reference_time);
+    if (distance < best_distance) {
+      best = iso;
+      best_distance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Normalise a raw date ("21 Apr 2025", "21/04/25", "Mon, Apr 21") to ISO-8601 (YYYY-MM-DD)
+ * A missing year is the one that puts the date nearest the reference date; a printed weekday
+ * narrows that down further. Returns null if the value cannot be parsed or is not a real date
+ */
+export function normalise_date(raw: string | undefined | null, options: DateParseOptions = {}): string | null {
+  if (!raw) return null;
+
+  const parts = parse_date_parts(raw, options.numeric_order || env.dates.numeric_order);
+  if (!parts || parts.month < 1 || parts.month > 12) return null;
+
+  const reference = options.reference_date || new Date();
+  const past_only = options.past_only || false;
+
+  if (parts.year !== undefined && !parts.two_digit_year) {
+    return to_iso(parts.year, parts.month, parts.day);
+  }
+
+  let years: number[];
+  if (parts.year !== undefined) {
+    years = [1900 + parts.year, 2000 + parts.year];
+  } else {
+    // Wider search when a weekday is printed; it repeats on the same date every 5-11 years
+    const span = parts.weekday !== undefined ? 6 : 1;
+    const reference_year = reference.getUTCFullYear();
+    years = Array.from({ length: span * 2 + 1 }, (_, i) => reference_year - span + i);
+  }
+
+  const candidates = years
+    .map(year => to_iso(year, parts.month, parts.day))
+    .filter((iso): iso is string => iso !== null)
+    .filter(iso => parts.weekday === undefined || new Date(iso).getUTCDay() === parts.weekday);
+
+  return nearest_candidate(candidates, reference, past_only);
+}
+
+/**
+ * Normalise a raw time ("06:20 hrs", "3:00PM", "12.30 a.m.", "0620 hrs") to 24-hour HH:MM
+ * Returns null if the value cannot be parsed
+ */
+export function normalise_time(raw: string | undefined | null): string | null {
+  if (!raw) return null;
+
+  const match = raw.trim().match(/\b(\d{1,2})(?:[:.h](\d{2})|(\d{2})(?=\s*hrs))?\s*(a\.?m\.?|p\.?m\.?)?/i);
+  if (!match || (!match[2] && !match[3] && !match[4])) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || match[3] || 0);
+  const meridiem = match[4]?.toLowerCase().charAt(0);
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Add `<field>_iso` next to a raw date field; records the field in `unparsed` if it cannot be normalised
+ */
+export function set_normalised_date(
+  data: Record<string, any>,
+  field: string,
+  unparsed: string[],
+  options: DateParseOptions = {}
+): string | null {
+  if (!data[field]) return null;
+
+  const iso = normalise_date(data[field], options);
+  if (iso) {
+    data[`${field}_iso`] = iso;
+  } else {
+    unparsed.push(field);
+  }
+  return iso;
+}
+
+/**
+ * Add `<field>_iso` (24-hour HH:MM) next to a raw time field; records the field in `unparsed` if it cannot be normalised
+ */
+export function set_normalised_time(
+  data: Record<string, any>,
+  field: string,
+  unparsed: string[]
+): string | null {
+  if (!data[field]) return null;
+
+  const time = normalise_time(data[field]);
+  if (time) {
+    data[`${field}_iso`] = time;
+  } else {
+    unparsed.push(field);
+  }
+  return time;
+}
+
@@ -0,0 +1,102 @@
+/**
+ * Stable error codes for failed documents, reported in results, progress events, webhooks and API errors
+ * retryable: submitting the same document again may succeed; http_status: used when the code is an API response
+ */
+export const ERROR_CODES = {
+  // Downloading the file
+  DOWNLOAD_INVALID_URL: { retryable: false, http_status: 400 },
+  DOWNLOAD_SCHEME_NOT_ALLOWED: { retryable: false, http_status: 400 },
+  DOWNLOAD_HOST_NOT_ALLOWED: { retryable: false, http_status: 400 },
+  DOWNLOAD_PRIVATE_ADDRESS: { retryable: false, http_status: 400 },
+  DOWNLOAD_EXPIRED_URL: { retryable: false, http_status: 400 },
+  DOWNLOAD_NOT_FOUND: { retryable: false, http_status: 400 },
+  DOWNLOAD_DNS_FAILED: { retryable: true, http_status: 502 },
+  DOWNLOAD_CONNECT_TIMEOUT: { retryable: true, http_status: 504 },
+  DOWNLOAD_READ_TIMEOUT: { retryable: true, http_status: 504 },
+  DOWNLOAD_UNAVAILABLE: { retryable: true, http_status: 502 },
+  DOWNLOAD_HTTP_ERROR: { retryable: false, http_status: 502 },
+  DOWNLOAD_TOO_MANY_REDIRECTS: { retryable: false, http_status: 502 },
+  DOWNLOAD_TOO_LARGE: { retryable: false, http_status: 413 },
+  DOWNLOAD_NETWORK_ERROR: { retryable: true, http_status: 502 },
+  UNSUPPORTED_FORMAT: { retryable: false, http_status: 415 },
+
+  // Gridlines passport API
+  PROVIDER_AUTH: { retryable: false, http_status: 502 },
+  PROVIDER_RATE_LIMITED: { retryable: true, http_status: 503 },
+  PROVIDER_UNAVAILABLE: { retryable: true, http_status: 502 },
+  PROVIDER_REJECTED: { retryable: false, http_status: 502 },
+
+  // Document content
+  LOW_IMAGE_QUALITY: { retryable: false, http_status: 422 },
+  UNKNOWN_DOCUMENT_TYPE: { retryable: false, http_status: 422 },
+  MISSING_PASSPORT_PAGES: { retryable: false, http_status: 400 },
+  MRZ_NOT_FOUND: { retryable: false, http_status: 422 },
+  MRZ_CHECK_FAILED: { retryable: false, http_status: 422 },
+  NOT_A_FLIGHT_TICKET: { retryable: false, http_status: 422 },
+  NOT_A_HOTEL_BOOKING: { retryable: false, http_status: 422 },
+  NOT_A_VISA: { retryable: false, http_status: 422 },
+  NOT_AN_INSURANCE_CERTIFICATE: { retryable: false, http_status: 422 },
+  NOT_A_NATIONAL_ID: { retryable: false, http_status: 422 },
+
+  // Requests to this service
+  VALIDATION_ERROR: { retryable: false, http_status: 400 },
+  UNAUTHORIZED: { retryable: false, http_status: 401 },
+  NOT_FOUND: { retryable: false, http_status: 404 },
+  NOT_ASSIGNABLE: { retryable: false, http_status: 409 },
+  FILE_TOO_LARGE: { retryable: false, http_status: 413 },
+
+  // This service
+  EXTRACT_TIMEOUT: { retryable: true, http_status: 504 },
+  EXTRACT_BUSY: { retryable: true, http_status: 503 },
+  QUEUE_UNAVAILABLE: { retryable: true, http_status: 503 },
+  SERVICE_UNAVAILABLE: { retryable: true, http_status: 503 },
+  WEBHOOK_DELIVERY_FAILED: { retryable: true, http_status: 502 },
+  SERVICE_SHUTTING_DOWN: { retryable: true, http_status: 503 },
+  INTERNAL_SERVER_ERROR: { retryable: true, http_status: 500 },
+} as const satisfies Record<string, { retryable: boolean; http_status: number }>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/**
+ * Error fields shared by every OCR result; set whenever status is not success
+ */
+export interface ResultError {
+  error?: string;
+  error_code?: ErrorCode;
+  retryable?: boolean;
+}
+
+/**
+ * An expected failure with a stable code; anything else thrown is reported as INTERNAL_SERVER_ERROR
+ * `details` are extra fields for the API error response
+ */
+export class ServiceError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ServiceError';
+    this.code = code;
+    this.retryable = ERROR_CODES[code].retryable;
+    this.details = details;
+  }
+}
+
+/**
+ * Result error fields for a code
+ */
+export function result_error(code: ErrorCode, message: string): Required<ResultError> {
+  return { error: message, error_code: code, retryable: ERROR_CODES[code].retryable };
+}
+
+/**
+ * Result error fields for a caught error
+ */
+export function to_result_error(error: unknown): Required<ResultError> {
+  if (error instanceof ServiceError) {
+    return result_error(error.code, error.message);
+  }
+  return result_error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+}
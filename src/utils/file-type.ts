@@ -0,0 +1,51 @@
+export type DetectedFileType = 'pdf' | 'jpeg' | 'png' | 'gif' | 'bmp' | 'tiff' | 'webp' | 'unknown';
+
+const CONTENT_TYPE_MAP: Record<string, DetectedFileType> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tiff',
+  'image/webp': 'webp',
+};
+
+function starts_with(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  if (buffer.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * Detect file type from magic bytes
+ */
+export function detect_file_type_from_bytes(buffer: Buffer): DetectedFileType {
+  // PDF header may be preceded by junk bytes; the spec allows it within the first 1 KB
+  if (buffer.subarray(0, 1024).includes('%PDF-')) return 'pdf';
+  if (starts_with(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (starts_with(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (starts_with(buffer, [0x47, 0x49, 0x46, 0x38])) return 'gif';
+  if (starts_with(buffer, [0x42, 0x4d])) return 'bmp';
+  if (starts_with(buffer, [0x49, 0x49, 0x2a, 0x00]) || starts_with(buffer, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+  if (starts_with(buffer, [0x52, 0x49, 0x46, 0x46]) && starts_with(buffer, [0x57, 0x45, 0x42, 0x50], 8)) return 'webp';
+  return 'unknown';
+}
+
+/**
+ * Detect file type from magic bytes, falling back to the Content-Type header
+ * Magic bytes win because S3 often serves uploads as application/octet-stream
+ */
+export function detect_file_type(buffer: Buffer, content_type?: string | null): DetectedFileType {
+  const from_bytes = detect_file_type_from_bytes(buffer);
+  if (from_bytes !== 'unknown') {
+    return from_bytes;
+  }
+
+  const mime = (content_type || '').split(';')[0].trim().toLowerCase();
+  return CONTENT_TYPE_MAP[mime] || 'unknown';
+}
+
+export default {
+  detect_file_type,
+  detect_file_type_from_bytes,
+};
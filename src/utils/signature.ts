@@ -0,0 +1,55 @@
+import * as crypto from 'crypto';
+import { env } from '../config/env.js';
+
+/**
+ * Compute HMAC-SHA256 signature over `${timestamp}.${method}.${path}.${body}` with the shared secret
+ * `path` is the request path and query string as sent (Express `originalUrl`), so a signature only fits one endpoint
+ */
+export function compute_signature(timestamp: string, method: string, path: string, body: string | Buffer): string {
+  const hmac = crypto.createHmac('sha256', env.auth.shared_secret);
+  hmac.update(`${timestamp}.${method.toUpperCase()}.${path}.`);
+  hmac.update(body);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Build signature and timestamp headers for an outgoing request to `url`
+ * Returns no headers when no shared secret is configured
+ */
+export function sign_payload(method: string, url: string, body: string): Record<string, string> {
+  if (!env.auth.shared_secret) {
+    return {};
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return {
+    [env.auth.signature_header]: compute_signature(timestamp, method, path_of(url), body),
+    [env.auth.timestamp_header]: timestamp,
+  };
+}
+
+/**
+ * Path and query string of a URL, as the receiving server sees it
+ */
+function path_of(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+/**
+ * Constant-time comparison of a received signature against the expected one
+ */
+export function signatures_match(expected: string, received: string): boolean {
+  const expected_buffer = Buffer.from(expected);
+  const received_buffer = Buffer.from(received);
+  if (expected_buffer.length !== received_buffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(expected_buffer, received_buffer);
+}
+
+export default {
+  compute_signature,
+  sign_payload,
+  signatures_match,
+};
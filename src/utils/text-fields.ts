@@ -0,0 +1,71 @@
+const NAME_TITLE_PATTERN = /^(?:Mrs|Mr|Ms|Miss|Mstr|Master|Dr)\.?\s+/i;
+
+/**
+ * First of an ordered list of patterns that matches the text, with its tier
+ * The value is the pattern's first capture group, trimmed
+ */
+export function match_field<T extends string>(
+  text: string,
+  rules: Array<[RegExp, T]>
+): { value: string; tier: T } | undefined {
+  for (const [pattern, tier] of rules) {
+    const match = text.match(pattern);
+    if (match && match[1] && match[1].trim()) {
+      return { value: match[1].trim(), tier };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Title case a name OCR'd in upper case; mixed-case names are kept as printed
+ */
+export function title_case_name(name: string): string {
+  return name === name.toUpperCase()
+    ? name.toLowerCase().replace(/\b[a-z]/g, char => char.toUpperCase())
+    : name;
+}
+
+/**
+ * Parse a comma / "and" separated list of names, e.g. the rest of a "Guest Names:" line
+ * List numbering and titles are dropped, and a name ends at the first of stop_words
+ * (upper case, letters only) when OCR runs a row into the next column
+ */
+export function parse_name_list(value: string, stop_words: Set<string>): string[] {
+  const names: string[] = [];
+
+  for (const part of value.split(/,|;|&|\band\b|\s{3,}/i)) {
+    const words: string[] = [];
+    for (const word of part.trim().replace(/^\d+[.)]\s*/, '').replace(NAME_TITLE_PATTERN, '').split(/\s+/)) {
+      if (!word || stop_words.has(word.toUpperCase().replace(/[^A-Z]/g, ''))) break;
+      words.push(word);
+    }
+
+    const name = words.join(' ');
+    if (!/^[A-Z][A-Za-z'-]+(?: [A-Z][A-Za-z'-]+){1,3}$/.test(name)) continue;
+
+    names.push(title_case_name(name));
+  }
+
+  return names;
+}
+
+/**
+ * Keep the first occurrence of each name, ignoring case
+ */
+export function unique_names(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export default {
+  match_field,
+  title_case_name,
+  parse_name_list,
+  unique_names,
+};
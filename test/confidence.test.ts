@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { build_confidence_report, field_confidence, type TextWord } from '../src/services/confidence.service.js';
+
+// Words as read from a PDF text layer
+const pdf_words: TextWord[] = [
+  { text: 'Booking', confidence: 1, page: 1 },
+  { text: 'FLIGHT', confidence: 1, page: 1 },
+];
+
+test('fallback field on clean text is flagged for review', () => {
+  const report = build_confidence_report({ pnr: { value: 'FLIGHT', tier: 'fallback' } }, pdf_words);
+
+  assert.equal(report.confidence.pnr, 0.5);
+  assert.equal(report.needs_review, true);
+  assert.deepEqual(report.low_confidence_fields, ['pnr']);
+});
+
+test('labelled field on clean text passes', () => {
+  const report = build_confidence_report({ pnr: { value: 'FLIGHT', tier: 'labelled' } }, pdf_words);
+
+  assert.equal(report.confidence.pnr, 1);
+  assert.equal(report.needs_review, false);
+});
+
+test('tier weight scales OCR confidence', () => {
+  const words: TextWord[] = [{ text: 'SISCPF', confidence: 0.9, page: 1 }];
+
+  assert.equal(field_confidence('SISCPF', 'positional', words), 0.68);
+  assert.equal(field_confidence('SISCPF', 'structured', []), 0.9); // No words, e.g. Gridlines
+});
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fuzzy_match_name, map_ticket_to_passenger, NAME_MATCH_THRESHOLD } from '../src/services/mapping.service.js';
+
+test('short given names one letter apart do not match', () => {
+  assert.ok(fuzzy_match_name('Sana Khan', 'Sara Khan') < NAME_MATCH_THRESHOLD);
+
+  const decision = map_ticket_to_passenger('Sana Khan', [{ traveller_id: 't1', traveller_name: 'Sara Khan' }]);
+  assert.equal(decision.status, 'unmatched');
+});
+
+test('short given names that sound alike still match', () => {
+  assert.ok(fuzzy_match_name('Jon Smith', 'John Smith') >= NAME_MATCH_THRESHOLD);
+});
+
+test('longer names allow one OCR slip', () => {
+  assert.ok(fuzzy_match_name('Mahendr Patel', 'Mahendra Patel') >= NAME_MATCH_THRESHOLD);
+  assert.ok(fuzzy_match_name('Mohammed Khan', 'Muhammad Khan') >= NAME_MATCH_THRESHOLD);
+});
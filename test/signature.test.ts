@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { NextFunction, Request, Response } from 'express';
+
+// The secret is read when env loads, so set it before importing
+process.env.OCR_SHARED_SECRET = 'test-secret';
+const { compute_signature } = await import('../src/utils/signature.js');
+const { verify_request_signature } = await import('../src/middleware/auth.middleware.js');
+const { ServiceError } = await import('../src/utils/errors.js');
+
+const body = Buffer.from('{"order_id":"order-1"}');
+
+// A request carrying the headers a client signed for POST /process/documents
+function signed_request(method: string, original_url: string): Request {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = {
+    'x-compass-timestamp': timestamp,
+    'x-compass-signature': compute_signature(timestamp, 'POST', '/process/documents', body),
+  };
+  return {
+    method,
+    originalUrl: original_url,
+    raw_body: body,
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+test('signature covers method and path', () => {
+  const signature = compute_signature('1700000000', 'POST', '/process/documents', body);
+
+  assert.notEqual(compute_signature('1700000000', 'POST', '/process/extract', body), signature);
+  assert.notEqual(compute_signature('1700000000', 'PUT', '/process/documents', body), signature);
+  assert.equal(compute_signature('1700000000', 'post', '/process/documents', body), signature);
+});
+
+test('signature replayed on another path is rejected', async () => {
+  const next: NextFunction = () => assert.fail('request should not be accepted');
+
+  await assert.rejects(
+    verify_request_signature(signed_request('POST', '/process/extract'), {} as Response, next),
+    (error: unknown) => error instanceof ServiceError
+      && error.code === 'UNAUTHORIZED'
+      && error.message === 'Invalid request signature'
+  );
+});
@@ -0,0 +1,141 @@
+import { env } from './src/config/env.js';
+import { get_redis_client } from './src/config/redis.js';
+import logger from './src/utils/logger.js';
+import { process_documents_async } from './src/services/processing.service.js';
+import { finish_order_job } from './src/services/job.service.js';
+import { warm_up_tesseract_pool, shutdown_tesseract_pool } from './src/services/tesseract.service.js';
+import {
+  reserve_job,
+  renew_lease,
+  ack_job,
+  requeue_expired_jobs,
+  type ReservedJob,
+} from './src/services/queue.service.js';
+
+// Handle unhandled promise rejections
+process.on('unhandledRejection', (reason: unknown, promise: Promise<unknown>) => {
+  console.error('Unhandled Rejection at:', promise, 'reason:', reason);
+  try {
+    logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
+  } catch (e) {
+    // Logger might not be initialized yet
+    console.error('Logger error:', e);
+  }
+});
+
+// Handle uncaught exceptions
+process.on('uncaughtException', (error: Error) => {
+  console.error('Uncaught Exception:', error);
+  try {
+    logger.error('Uncaught Exception:', error);
+  } catch (e) {
+    // Logger might not be initialized yet
+    console.error('Logger error:', e);
+  }
+});
+
+let running = true;
+let current_job: Promise<void> | null = null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Process a reserved job, renewing its lease until done
+ * Jobs that throw are not acknowledged; their lease expires and they are retried
+ */
+async function handle_job(reserved: ReservedJob): Promise<void> {
+  const { job, deliveries } = reserved;
+
+  if (deliveries > env.queue.max_deliveries) {
+    logger.error(`Job ${job.id} for order ${job.order_id} exceeded ${env.queue.max_deliveries} deliveries, dropping`);
+    await finish_order_job(job.order_id, `Processing abandoned after ${env.queue.max_deliveries} attempts`);
+    await ack_job(reserved);
+    return;
+  }
+
+  const lease_timer = setInterval(() => {
+    renew_lease(reserved).catch((error: Error) => {
+      logger.warn(`Failed to renew lease for job ${job.id}:`, error.message);
+    });
+  }, Math.max(Math.floor(env.queue.lease_ms / 3), 1000));
+
+  try {
+    logger.info(`Worker picked up job ${job.id} for order ${job.order_id} (delivery ${deliveries})`);
+    // Dates without a year are read relative to the travel date, or to when the order was submitted
+    await process_documents_async(
+      job.order_id,
+      job.documents,
+      new Date(job.travel_date || job.enqueued_at),
+      job.travellers
+    );
+    await ack_job(reserved);
+    logger.info(`Worker completed job ${job.id} for order ${job.order_id}`);
+  } catch (error) {
+    logger.error(`Job ${job.id} for order ${job.order_id} failed, will be retried after lease expiry:`, error);
+  } finally {
+    clearInterval(lease_timer);
+  }
+}
+
+/**
+ * Main worker loop: reserve, process, acknowledge
+ */
+async function run(): Promise<void> {
+  await warm_up_tesseract_pool();
+  await requeue_expired_jobs();
+
+  const reaper_timer = setInterval(() => {
+    requeue_expired_jobs().catch((error: Error) => {
+      logger.warn('Failed to requeue expired jobs:', error.message);
+    });
+  }, env.queue.reaper_interval_ms);
+
+  logger.info(`OCR worker consuming queue ${env.queue.name}`);
+
+  while (running) {
+    try {
+      const reserved = await reserve_job();
+      if (!reserved) {
+        await sleep(env.queue.poll_interval_ms);
+        continue;
+      }
+
+      current_job = handle_job(reserved);
+      await current_job;
+      current_job = null;
+    } catch (error) {
+      logger.error('Worker loop error:', error);
+      await sleep(env.queue.poll_interval_ms);
+    }
+  }
+
+  clearInterval(reaper_timer);
+}
+
+// Graceful shutdown: finish the current job, then exit
+async function shutdown(signal: string): Promise<void> {
+  logger.info(`${signal} received, worker shutting down gracefully`);
+  running = false;
+
+  if (current_job) {
+    await current_job;
+  }
+
+  await shutdown_tesseract_pool();
+  await get_redis_client().quit().catch(() => {});
+  logger.info('Worker stopped');
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => {
+  shutdown('SIGTERM');
+});
+
+process.on('SIGINT', () => {
+  shutdown('SIGINT');
+});
+
+run().catch((error: Error) => {
+  logger.error('Worker failed to start:', error);
+  process.exit(1);
+});